@@ -0,0 +1,63 @@
+import React, {
+  createContext,
+  useCallback,
+  useMemo,
+  useRef,
+  useState,
+} from 'react'
+
+// Sheets that are opened while another sheet is open stack on top of each other, like cards on iOS.
+// Only the sheet on top of the stack owns focus, escape handling, scroll locking and aria hiding,
+// the ones underneath are paused until they're on top again.
+
+export type StackEntry = {
+  id: number
+  // Called when another sheet is pushed on top of this one
+  pause: () => void
+  // Called when this sheet is on top of the stack again
+  resume: () => void
+}
+
+export const StackContext = createContext<{
+  stack: number[]
+  push: (entry: StackEntry) => void
+  pop: (id: number) => void
+} | null>(null)
+
+export function BottomSheetStackProvider({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  // The entries are kept in a ref so pausing and resuming happens synchronously, before the next sheet activates its plugins.
+  // Otherwise the aria hider of the sheet underneath would restore aria-hidden attributes the sheet on top just relied on.
+  const entriesRef = useRef<StackEntry[]>([])
+  // Mirrors the ids in entriesRef, used for rendering the stacked state
+  const [stack, setStack] = useState<number[]>([])
+
+  const push = useCallback((entry: StackEntry) => {
+    const entries = entriesRef.current
+    if (entries.some(({ id }) => id === entry.id)) return
+
+    entries[entries.length - 1]?.pause()
+    entries.push(entry)
+    setStack(entries.map(({ id }) => id))
+  }, [])
+
+  const pop = useCallback((id: number) => {
+    const entries = entriesRef.current
+    const index = entries.findIndex((entry) => entry.id === id)
+    if (index === -1) return
+
+    const wasOnTop = index === entries.length - 1
+    entries.splice(index, 1)
+    if (wasOnTop) {
+      entries[entries.length - 1]?.resume()
+    }
+    setStack(entries.map(({ id }) => id))
+  }, [])
+
+  const value = useMemo(() => ({ stack, push, pop }), [stack, push, pop])
+
+  return <StackContext.Provider value={value}>{children}</StackContext.Provider>
+}
@@ -1,9 +1,14 @@
+export { useAnnouncer } from './useAnnouncer'
 export { useAriaHider } from './useAriaHider'
+export { useCloseOnBack } from './useCloseOnBack'
 export { useFocusTrap } from './useFocusTrap'
 export { useLayoutEffect } from './useLayoutEffect'
+export { usePersistence } from './usePersistence'
 export { useReady } from './useReady'
 export { useReducedMotion } from './useReducedMotion'
+export { useReturnFocus } from './useReturnFocus'
 export { useScrollLock } from './useScrollLock'
 export { useSnapPoints } from './useSnapPoints'
 export { useSpring } from './useSpring'
 export { useSpringInterpolations } from './useSpringInterpolations'
+export { useStack } from './useStack'
@@ -0,0 +1,77 @@
+import { useCallback, useDebugValue, useEffect, useRef } from 'react'
+import type { AnnouncementProps, Announcements } from '../types'
+
+export const defaultAnnouncements: Announcements = {
+  opened: 'Sheet opened',
+  closed: 'Sheet closed',
+  expanded: 'Sheet expanded to full height',
+  collapsed: 'Sheet collapsed',
+  snapped: ({ snapIndex, snapCount, snapName, snapLabel }) =>
+    snapLabel ?? snapName
+      ? `Sheet resized to ${snapLabel ?? snapName}`
+      : `Sheet resized to size ${snapIndex + 1} of ${snapCount}`,
+}
+
+// The live region is shared by all sheets and lives on body, so it's still around to announce that a sheet closed after it unmounts
+let liveRegion: HTMLElement | null = null
+let announceTimer: ReturnType<typeof setTimeout>
+function getLiveRegion() {
+  if (!liveRegion || !liveRegion.isConnected) {
+    liveRegion = document.createElement('div')
+    liveRegion.setAttribute('data-rsbs-announcer', '')
+    liveRegion.setAttribute('role', 'status')
+    liveRegion.setAttribute('aria-live', 'polite')
+    liveRegion.setAttribute('aria-atomic', 'true')
+    // Visually hidden, inline so it works without style.css
+    Object.assign(liveRegion.style, {
+      position: 'absolute',
+      width: '1px',
+      height: '1px',
+      margin: '-1px',
+      padding: '0',
+      overflow: 'hidden',
+      clip: 'rect(0 0 0 0)',
+      whiteSpace: 'nowrap',
+      border: '0',
+    })
+    document.body.appendChild(liveRegion)
+  }
+  return liveRegion
+}
+
+export function useAnnouncer({
+  announcements,
+}: {
+  announcements: Partial<Announcements> | false
+}) {
+  // Apps often pass in an object literal, it shouldn't change the identity of announce
+  const announcementsRef = useRef(announcements)
+  useEffect(() => {
+    announcementsRef.current = announcements
+  }, [announcements])
+
+  useDebugValue(announcements === false ? 'Disabled' : 'Enabled')
+
+  const announce = useCallback(
+    (type: keyof Announcements, props: AnnouncementProps) => {
+      if (announcementsRef.current === false) return
+
+      const announcement =
+        announcementsRef.current[type] ?? defaultAnnouncements[type]
+      const message =
+        typeof announcement === 'function' ? announcement(props) : announcement
+      if (!message) return
+
+      const region = getLiveRegion()
+      // Clearing it first ensures the same message is announced again if it's repeated
+      region.textContent = ''
+      clearTimeout(announceTimer)
+      announceTimer = setTimeout(() => {
+        region.textContent = message
+      }, 100)
+    },
+    []
+  )
+
+  return announce
+}
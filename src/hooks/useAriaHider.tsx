@@ -1,12 +1,18 @@
 import React, { useDebugValue, useEffect, useRef } from 'react'
+import type { Isolation } from '../types'
 
-// Handle hiding and restoring aria-hidden attributes
+// Handle hiding and restoring aria-hidden, or inert, attributes on the rest of the page
 export function useAriaHider({
   targetRef,
   enabled,
+  isolation = 'aria-hidden',
+  allowList = [],
 }: {
   targetRef: React.RefObject<Element>
   enabled: boolean
+  isolation?: Isolation
+  // Selectors for elements on body that should stay interactive, like toasts
+  allowList?: string[]
 }) {
   const ref = useRef<{ activate: () => void; deactivate: () => void }>({
     activate: () => {
@@ -15,7 +21,21 @@ export function useAriaHider({
     deactivate: () => {},
   })
 
-  useDebugValue(enabled ? 'Enabled' : 'Disabled')
+  // Browsers without inert support fall back to aria-hidden, which at least hides the page from screen readers
+  const attribute =
+    isolation === 'inert' &&
+    typeof HTMLElement !== 'undefined' &&
+    'inert' in HTMLElement.prototype
+      ? 'inert'
+      : 'aria-hidden'
+
+  useDebugValue(enabled ? `Enabled, using ${attribute}` : 'Disabled')
+
+  // Changing the allow list while it's active isn't supported, it's picked up the next time it activates
+  const allowListRef = useRef(allowList)
+  useEffect(() => {
+    allowListRef.current = allowList
+  }, [allowList])
 
   useEffect(() => {
     if (!enabled) {
@@ -29,44 +49,74 @@ export function useAriaHider({
     let originalValues: (null | string)[] = []
     let rootNodes: Element[] = []
 
+    const hide = (node: Element) => {
+      if (
+        node === target.parentNode ||
+        // The live region announcing sheet changes has to stay audible
+        node.hasAttribute('data-rsbs-announcer') ||
+        allowListRef.current.some((selector) => node.matches(selector))
+      ) {
+        return
+      }
+      let attr = node.getAttribute(attribute)
+      let alreadyHidden =
+        attribute === 'inert'
+          ? attr !== null
+          : attr !== null && attr !== 'false'
+      if (alreadyHidden) {
+        return
+      }
+      originalValues.push(attr)
+      rootNodes.push(node)
+      node.setAttribute(attribute, attribute === 'inert' ? '' : 'true')
+    }
+
+    // Portals that are added while the sheet is open, are isolated as well
+    const observer =
+      typeof MutationObserver !== 'undefined'
+        ? new MutationObserver((mutations) => {
+            mutations.forEach((mutation) =>
+              mutation.addedNodes.forEach((node) => {
+                if (node instanceof Element) hide(node)
+              })
+            )
+          })
+        : null
+
     ref.current = {
       activate: () => {
         if (active) return
         active = true
 
-        const parentNode = target.parentNode
-
-        document.querySelectorAll('body > *').forEach((node) => {
-          if (node === parentNode) {
-            return
-          }
-          let attr = node.getAttribute('aria-hidden')
-          let alreadyHidden = attr !== null && attr !== 'false'
-          if (alreadyHidden) {
-            return
-          }
-          originalValues.push(attr)
-          rootNodes.push(node)
-          node.setAttribute('aria-hidden', 'true')
-        })
+        document.querySelectorAll('body > *').forEach(hide)
+        observer?.observe(document.body, { childList: true })
+        // A sheet opened from inside another sheet, without a BottomSheetStackProvider, mounts its portal while the other
+        // sheet is observing and gets isolated by it. It's on top now, the other sheet removes the attribute again when it deactivates.
+        if (target.parentNode instanceof Element) {
+          target.parentNode.removeAttribute(attribute)
+        }
       },
       deactivate: () => {
         if (!active) return
         active = false
 
+        observer?.disconnect()
         rootNodes.forEach((node, index) => {
           let originalValue = originalValues[index]
           if (originalValue === null) {
-            node.removeAttribute('aria-hidden')
+            node.removeAttribute(attribute)
           } else {
-            node.setAttribute('aria-hidden', originalValue)
+            node.setAttribute(attribute, originalValue)
           }
         })
         originalValues = []
         rootNodes = []
       },
     }
-  }, [targetRef, enabled])
+
+    // The attribute it was set up with is restored before a new instance takes over, or the sheet unmounts
+    return () => ref.current.deactivate()
+  }, [targetRef, enabled, attribute])
 
   return ref
 }
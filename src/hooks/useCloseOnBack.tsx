@@ -0,0 +1,115 @@
+import { useDebugValue, useEffect, useRef } from 'react'
+
+// The marker is merged into the existing history state, so routers keep the state they put there
+const stateKey = '__rsbs'
+// Increases with every entry that's pushed, a sheet knows it's been navigated away from when the state has a lower one
+let entryKey = 0
+
+const disabled = {
+  activate: () => {},
+  deactivate: () => {},
+  restore: () => {},
+}
+
+// Pushes a history entry while the sheet is open, so the back button on Android closes it instead of leaving the page
+export function useCloseOnBack({
+  enabled,
+  onBack,
+}: {
+  enabled: boolean
+  // Returns false if the sheet stays open, like when shouldDismiss returns false
+  onBack: () => boolean
+}) {
+  // The sheet's lifecycle is tracked separately from the history entry, so closeOnBack can be turned on and off while it's open
+  const openRef = useRef(false)
+  const entryRef = useRef<{
+    activate: () => void
+    deactivate: () => void
+    restore: () => void
+  }>(disabled)
+  const ref = useRef({
+    activate: () => {
+      openRef.current = true
+      entryRef.current.activate()
+    },
+    deactivate: () => {
+      openRef.current = false
+      entryRef.current.deactivate()
+    },
+    restore: () => entryRef.current.restore(),
+  })
+
+  // Same as the spring events, avoids the listener holding on to a stale callback
+  const onBackRef = useRef(onBack)
+  useEffect(() => {
+    onBackRef.current = onBack
+  }, [onBack])
+
+  useDebugValue(enabled ? 'Enabled' : 'Disabled')
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    let active = false
+    let key = 0
+
+    const push = () => {
+      key = ++entryKey
+      window.history.pushState({ ...window.history.state, [stateKey]: key }, '')
+    }
+
+    const handlePopState = (event: PopStateEvent) => {
+      // Still on the entry, or one pushed after it, happens when a sheet stacked on top of this one is closed
+      if ((event.state?.[stateKey] ?? 0) >= key) {
+        return
+      }
+      // The entry is gone, if the sheet stays open it needs a new one to catch the next press of the back button
+      if (!onBackRef.current()) {
+        push()
+      }
+    }
+
+    entryRef.current = {
+      activate: () => {
+        if (active) return
+        active = true
+
+        push()
+        window.addEventListener('popstate', handlePopState)
+      },
+      deactivate: () => {
+        if (!active) return
+        active = false
+
+        window.removeEventListener('popstate', handlePopState)
+        // Closed by other means than the back button, the entry is removed unless the app navigated on top of it in the meantime
+        if (window.history.state?.[stateKey] === key) {
+          window.history.back()
+        }
+      },
+      // The sheet stayed open after all, like when beforeDismiss resolved to false, so the entry is pushed again if it's gone
+      restore: () => {
+        if (!active) return
+
+        if ((window.history.state?.[stateKey] ?? 0) < key) {
+          push()
+        }
+      },
+    }
+
+    // Enabled while the sheet is already open
+    if (openRef.current) {
+      entryRef.current.activate()
+    }
+
+    // Disabled while the sheet is open, or unmounted, takes the entry with it
+    return () => {
+      entryRef.current.deactivate()
+      entryRef.current = disabled
+    }
+  }, [enabled])
+
+  return ref
+}
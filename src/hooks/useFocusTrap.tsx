@@ -12,7 +12,10 @@ export function useFocusTrap({
   initialFocusRef?: React.RefObject<HTMLElement>
   enabled: boolean
 }) {
-  const ref = useRef<{ activate: () => void; deactivate: () => void }>({
+  const ref = useRef<{
+    activate: (options?: { initialFocus?: boolean }) => void
+    deactivate: () => void
+  }>({
     activate: () => {
       throw new TypeError('Tried to activate focus trap too early')
     },
@@ -29,6 +32,12 @@ export function useFocusTrap({
     }
 
     const fallback = fallbackRef.current
+    // focus-trap can only fall back to a focusable element, and landing on the dialog itself makes screen readers announce its label
+    if (fallback && !fallback.hasAttribute('tabindex')) {
+      fallback.setAttribute('tabindex', '-1')
+    }
+    // A sheet that's resumed after the one on top of it closed leaves focus alone, that sheet hands it back to its own trigger
+    let skipInitialFocus = false
     const trap = createFocusTrap(targetRef.current, {
       onActivate:
         process.env.NODE_ENV !== 'production'
@@ -37,20 +46,26 @@ export function useFocusTrap({
             }
           : undefined,
       // If initialFocusRef is manually specified we don't want the first tabbable element to receive focus if initialFocusRef can't be found
-      initialFocus: initialFocusRef
-        ? () => initialFocusRef?.current || fallback
-        : undefined,
+      initialFocus: () =>
+        skipInitialFocus
+          ? false
+          : initialFocusRef
+          ? initialFocusRef?.current || fallback
+          : undefined,
       fallbackFocus: fallback,
+      // useReturnFocus takes care of it after the close transition, instead of when the trap is paused or deactivated
+      returnFocusOnDeactivate: false,
       escapeDeactivates: false,
       clickOutsideDeactivates: false,
     })
     let active = false
 
     ref.current = {
-      activate: async () => {
+      activate: async ({ initialFocus = true } = {}) => {
         if (active) return
         active = true
 
+        skipInitialFocus = !initialFocus
         await trap.activate()
         // it's difficult to know exactly when focus is udpated https://github.com/focus-trap/focus-trap/blob/036a72ec48b85414dda00ec0c40d631c8f0ae5ce/index.js#L369-L371
         // This timeout is attempting to compromise between a reasonable guess, as well as not delaying the open transition more than necessary
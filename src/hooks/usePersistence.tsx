@@ -0,0 +1,92 @@
+import { useCallback, useDebugValue, useEffect, useRef, useState } from 'react'
+import type { PersistStorage } from '../types'
+
+// What's saved under the persistKey, the name, index and number of snap points are kept so it can be restored
+// to the same snap point even if its height changed since, like after rotating the device
+export type PersistedState = {
+  snap: number
+  index: number
+  snapCount: number
+  name?: string
+  scrollTop?: number
+}
+
+// Survives the sheet being remounted, but not a page reload
+const memoryStore = new Map<string, string>()
+const memoryStorage: PersistStorage = {
+  getItem: (key) => memoryStore.get(key) ?? null,
+  setItem: (key, value) => {
+    memoryStore.set(key, value)
+  },
+}
+
+function resolveStorage(
+  storage: 'memory' | 'session' | 'local' | PersistStorage
+): PersistStorage | null {
+  // Accessing sessionStorage and localStorage throws when they're blocked, like in sandboxed iframes
+  try {
+    switch (storage) {
+      case 'memory':
+        return memoryStorage
+      case 'session':
+        return window.sessionStorage
+      case 'local':
+        return window.localStorage
+      default:
+        return storage
+    }
+  } catch {
+    return null
+  }
+}
+
+export function usePersistence({
+  persistKey,
+  storage,
+}: {
+  persistKey?: string
+  storage: 'memory' | 'session' | 'local' | PersistStorage
+}) {
+  // A custom storage is often an object literal, it shouldn't change the identity of save
+  const storageRef = useRef(storage)
+  const persistKeyRef = useRef(persistKey)
+  useEffect(() => {
+    storageRef.current = storage
+    persistKeyRef.current = persistKey
+  }, [storage, persistKey])
+
+  // Read once when the sheet mounts, after that the last snap point is tracked in memory like it always has been
+  const [persisted] = useState<PersistedState | null>(() => {
+    if (!persistKey || typeof window === 'undefined') {
+      return null
+    }
+    try {
+      const value = resolveStorage(storage)?.getItem(persistKey)
+      return value ? JSON.parse(value) : null
+    } catch {
+      return null
+    }
+  })
+
+  useDebugValue(persistKey ? `Persisted as ${persistKey}` : 'Disabled')
+
+  // The snap point and scroll offset are saved at different times, so each save is merged with the previous one
+  const stateRef = useRef(persisted)
+  const save = useCallback((state: Partial<PersistedState>) => {
+    const key = persistKeyRef.current
+    if (!key) return
+    stateRef.current = { ...stateRef.current, ...state } as PersistedState
+    // The storage might be full, it's not worth breaking the sheet over
+    try {
+      resolveStorage(storageRef.current)?.setItem(
+        key,
+        JSON.stringify(stateRef.current)
+      )
+    } catch {}
+  }, [])
+
+  // The latest state, including what's been saved since it was read
+  const getState = useCallback(() => stateRef.current, [])
+
+  return { persisted, save, getState }
+}
@@ -1,7 +1,7 @@
-import { useDebugValue, useEffect, useMemo, useRef } from 'react'
+import { useDebugValue, useEffect, useMemo, useRef, useState } from 'react'
 
-// @TODO refactor to addEventListener
-export function useReducedMotion() {
+// 'user' follows prefers-reduced-motion, and updates when it's changed while the sheet is mounted
+export function useReducedMotion(mode: 'user' | 'always' | 'never' = 'user') {
   const mql = useMemo(
     () =>
       typeof window !== 'undefined'
@@ -9,18 +9,34 @@ export function useReducedMotion() {
         : null,
     []
   )
-  const ref = useRef(mql?.matches)
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(
+    () => !!mql?.matches
+  )
+  const reduceMotion =
+    mode === 'always' || (mode === 'user' && prefersReducedMotion)
+  // The actors read it when a transition starts
+  const ref = useRef(reduceMotion)
 
-  useDebugValue(ref.current ? 'reduce' : 'no-preference')
+  useDebugValue(reduceMotion ? 'reduce' : 'no-preference')
 
   useEffect(() => {
-    const handler = (event) => {
-      ref.current = event.matches
-    }
-    mql?.addListener(handler)
+    ref.current = reduceMotion
+  }, [reduceMotion])
+
+  useEffect(() => {
+    if (!mql || mode !== 'user') return
 
-    return () => mql?.removeListener(handler)
-  }, [mql])
+    const handler = (event: MediaQueryListEvent) => {
+      setPrefersReducedMotion(event.matches)
+    }
+    // Safari before 14 only has the deprecated addListener
+    if (typeof mql.addEventListener === 'function') {
+      mql.addEventListener('change', handler)
+      return () => mql.removeEventListener('change', handler)
+    }
+    mql.addListener(handler)
+    return () => mql.removeListener(handler)
+  }, [mql, mode])
 
-  return ref
+  return { reduceMotionRef: ref, reduceMotion }
 }
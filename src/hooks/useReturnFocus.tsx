@@ -0,0 +1,83 @@
+import { useDebugValue, useEffect, useRef } from 'react'
+
+// Remembers what had focus before the sheet opened, and moves focus back there after it's closed
+export function useReturnFocus({
+  targetRef,
+  returnFocus,
+  returnFocusRef,
+}: {
+  targetRef: React.RefObject<HTMLElement>
+  returnFocus: boolean | (() => HTMLElement | null | undefined)
+  returnFocusRef?: React.RefObject<HTMLElement>
+}) {
+  // Same as the spring events, the latest options are used when it's time to restore focus
+  const returnFocusOptionRef = useRef(returnFocus)
+  const returnFocusRefRef = useRef(returnFocusRef)
+  useEffect(() => {
+    returnFocusOptionRef.current = returnFocus
+    returnFocusRefRef.current = returnFocusRef
+  }, [returnFocus, returnFocusRef])
+
+  const ref = useRef<{ capture: () => void; restore: () => void }>()
+  const previousRef = useRef<Element | null>(null)
+  // Captured, and not restored yet, the sheet is open or closing
+  const pendingRef = useRef(false)
+
+  useDebugValue(returnFocus === false ? 'Disabled' : 'Enabled')
+
+  if (!ref.current) {
+    ref.current = {
+      capture: () => {
+        const active = document.activeElement
+        // When reopened during the close transition focus is still in the sheet, keep the trigger from the first time around
+        if (!targetRef.current?.contains(active)) {
+          previousRef.current = active
+        }
+        pendingRef.current = true
+      },
+      restore: () => {
+        const previous = previousRef.current
+        previousRef.current = null
+        pendingRef.current = false
+
+        const option = returnFocusOptionRef.current
+        if (option === false) return
+
+        // Only take focus back if it's still in the sheet, or was lost when something in it unmounted,
+        // non-blocking sheets shouldn't steal focus from wherever the user went in the meantime
+        const active = document.activeElement
+        if (
+          active &&
+          active !== document.body &&
+          !targetRef.current?.contains(active)
+        ) {
+          return
+        }
+
+        // The trigger might have been unmounted while the sheet was open, so the first candidate that's still in the document wins
+        const candidates = [
+          returnFocusRefRef.current?.current,
+          typeof option === 'function' ? option() : null,
+          previous,
+        ]
+        const element = candidates.find(
+          (candidate): candidate is HTMLElement =>
+            candidate instanceof HTMLElement && candidate.isConnected
+        )
+        element?.focus({ preventScroll: true })
+      },
+    }
+  }
+
+  // Unmounting while open skips the close transition, focus still has to go back
+  useEffect(
+    () => () => {
+      if (pendingRef.current) {
+        ref.current.restore()
+      }
+    },
+    []
+  )
+
+  return ref
+}
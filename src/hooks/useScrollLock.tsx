@@ -14,10 +14,13 @@ import { useDebugValue, useEffect, useRef } from 'react'
  */
 export function useScrollLock({
   targetRef,
+  containerRef,
   enabled,
   reserveScrollBarGap,
 }: {
   targetRef: React.RefObject<Element>
+  // Scroll containers marked with data-rsbs-scrollable in here are allowed to scroll as well
+  containerRef: React.RefObject<Element>
   enabled: boolean
   reserveScrollBarGap: boolean
 }) {
@@ -38,24 +41,57 @@ export function useScrollLock({
     }
 
     const target = targetRef.current
+    const container = containerRef.current
     let active = false
+    let locked: Element[] = []
+
+    // Each scroll container gets its own lock, so the overscroll fix in body-scroll-lock applies to the one being scrolled
+    const update = () => {
+      const scrollables = [
+        target,
+        ...Array.from(container.querySelectorAll('[data-rsbs-scrollable]')),
+      ]
+      locked
+        .filter((element) => !scrollables.includes(element))
+        .forEach((element) => enableBodyScroll(element))
+      scrollables
+        .filter((element) => !locked.includes(element))
+        .forEach((element) =>
+          disableBodyScroll(element, {
+            allowTouchMove: (el) =>
+              el.closest('[data-body-scroll-lock-ignore]'),
+            reserveScrollBarGap,
+          })
+        )
+      locked = scrollables
+    }
+
+    // Tabs and the like can swap out scroll containers while the sheet is open
+    const observer =
+      typeof MutationObserver !== 'undefined'
+        ? new MutationObserver(update)
+        : null
 
     ref.current = {
       activate: () => {
         if (active) return
         active = true
-        disableBodyScroll(target, {
-          allowTouchMove: (el) => el.closest('[data-body-scroll-lock-ignore]'),
-          reserveScrollBarGap,
+        update()
+        observer?.observe(container, {
+          subtree: true,
+          childList: true,
+          attributeFilter: ['data-rsbs-scrollable'],
         })
       },
       deactivate: () => {
         if (!active) return
         active = false
-        enableBodyScroll(target)
+        observer?.disconnect()
+        locked.forEach((element) => enableBodyScroll(element))
+        locked = []
       },
     }
-  }, [enabled, targetRef, reserveScrollBarGap])
+  }, [enabled, targetRef, containerRef, reserveScrollBarGap])
 
   return ref
 }
@@ -7,8 +7,23 @@ import React, {
   useState,
 } from 'react'
 import { ResizeObserver, ResizeObserverEntry } from '@juggle/resize-observer'
-import type { defaultSnapProps, ResizeSource, snapPoints } from '../types'
-import { processSnapPoints, roundAndCheckForNaN } from '../utils'
+import type {
+  defaultSnapProps,
+  Placement,
+  ResizeSource,
+  SnapPoint,
+  SnapPointBehavior,
+  snapPoints,
+  SnapTarget,
+} from '../types'
+import {
+  clamp,
+  findClosestSnap,
+  isHorizontal,
+  processSnapPoints,
+  resolveSnapPoint,
+  roundAndCheckForNaN,
+} from '../utils'
 import { useReady } from './useReady'
 import { ResizeObserverOptions } from '@juggle/resize-observer/lib/ResizeObserverOptions'
 import { useLayoutEffect } from './useLayoutEffect'
@@ -16,60 +31,77 @@ import { useLayoutEffect } from './useLayoutEffect'
 export function useSnapPoints({
   contentRef,
   controlledMaxHeight,
+  detached,
+  detachedOffset,
   footerEnabled,
   footerRef,
   getSnapPoints,
   headerEnabled,
   headerRef,
   heightRef,
+  keyboardAware,
   lastSnapRef,
+  placement,
   ready,
   registerReady,
   resizeSourceRef,
 }: {
   contentRef: React.RefObject<Element>
   controlledMaxHeight?: number
+  detached: boolean
+  detachedOffset: number
   footerEnabled: boolean
   footerRef: React.RefObject<Element>
-  getSnapPoints: snapPoints
+  getSnapPoints: snapPoints | SnapPoint[] | SnapPoint
   headerEnabled: boolean
   headerRef: React.RefObject<Element>
   heightRef: React.RefObject<number>
+  keyboardAware: boolean
   lastSnapRef: React.RefObject<number>
+  placement: Placement
   ready: boolean
   registerReady: ReturnType<typeof useReady>['registerReady']
   resizeSourceRef: React.MutableRefObject<ResizeSource>
 }) {
-  const { maxHeight, minHeight, headerHeight, footerHeight } = useDimensions({
-    contentRef: contentRef,
-    controlledMaxHeight,
-    footerEnabled,
-    footerRef,
-    headerEnabled,
-    headerRef,
-    registerReady,
-    resizeSourceRef,
-  })
+  const { maxHeight, minHeight, headerHeight, footerHeight, keyboardInset } =
+    useDimensions({
+      contentRef: contentRef,
+      controlledMaxHeight,
+      detached,
+      detachedOffset,
+      footerEnabled,
+      footerRef,
+      headerEnabled,
+      headerRef,
+      keyboardAware,
+      placement,
+      registerReady,
+      resizeSourceRef,
+    })
 
-  const { snapPoints, minSnap, maxSnap } = processSnapPoints(
-    ready
-      ? getSnapPoints({
-          height: heightRef.current,
-          footerHeight,
-          headerHeight,
-          minHeight,
-          maxHeight,
-        })
-      : [0],
-    maxHeight
-  )
+  const dimensions = {
+    height: heightRef.current,
+    footerHeight,
+    headerHeight,
+    minHeight,
+    maxHeight,
+  }
+  const { snapPoints, namedSnapPoints, snapBehaviors, minSnap, maxSnap } =
+    processSnapPoints(
+      ready
+        ? typeof getSnapPoints === 'function'
+          ? getSnapPoints(dimensions)
+          : getSnapPoints
+        : [0],
+      dimensions
+    )
   //console.log({ snapPoints, minSnap, maxSnap })
 
   // @TODO investigate the gains from memoizing this
   function findSnap(
-    numberOrCallback: number | ((state: defaultSnapProps) => number)
+    numberOrCallback: SnapTarget | ((state: defaultSnapProps) => SnapTarget)
   ) {
-    let unsafeSearch: number
+    let unsafeSearch: SnapTarget
     if (typeof numberOrCallback === 'function') {
       unsafeSearch = numberOrCallback({
         footerHeight,
@@ -83,46 +115,121 @@ export function useSnapPoints({
     } else {
       unsafeSearch = numberOrCallback
     }
-    const querySnap = roundAndCheckForNaN(unsafeSearch)
-    return snapPoints.reduce(
-      (prev, curr) =>
-        Math.abs(curr - querySnap) < Math.abs(prev - querySnap) ? curr : prev,
-      minSnap
-    )
+    if (typeof unsafeSearch === 'object' && 'index' in unsafeSearch) {
+      return snapPoints[
+        clamp(roundAndCheckForNaN(unsafeSearch.index), 0, snapPoints.length - 1)
+      ]
+    }
+    // Named snap points are only known once the sheet is ready, until then there's only the one snap point to pick
+    if (
+      !ready &&
+      typeof unsafeSearch === 'string' &&
+      !namedSnapPoints.has(unsafeSearch)
+    ) {
+      return minSnap
+    }
+    if (typeof unsafeSearch === 'string' && namedSnapPoints.has(unsafeSearch)) {
+      return findClosestSnap(
+        roundAndCheckForNaN(namedSnapPoints.get(unsafeSearch)),
+        snapPoints
+      )
+    }
+    // A mistyped name in snapTo or defaultSnap shouldn't crash the app, the sheet falls back like it does before it's ready
+    let querySnap: number
+    try {
+      querySnap = resolveSnapPoint(unsafeSearch as SnapPoint, dimensions)
+    } catch (error) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn(
+          `${error.message} Falling back to the smallest snap point.`
+        )
+      }
+      return minSnap
+    }
+    return findClosestSnap(roundAndCheckForNaN(querySnap), snapPoints)
+  }
+
+  // Finds the name of a snap point, if it's a named one
+  function findSnapName(snap: number) {
+    for (const [name, namedSnap] of namedSnapPoints) {
+      if (namedSnap === snap) {
+        return name
+      }
+    }
+    return undefined
+  }
+
+  // Finds the behaviour a snap point descriptor has set, if any
+  function findSnapBehavior(snap: number): SnapPointBehavior {
+    return snapBehaviors.get(snap) ?? {}
+  }
+
+  // Finds the index of a snap point, -1 if it's in between snap points
+  function findSnapIndex(snap: number) {
+    return snapPoints.indexOf(snap)
   }
 
   useDebugValue(`minSnap: ${minSnap}, maxSnap:${maxSnap}`)
 
-  return { minSnap, maxSnap, findSnap, maxHeight }
+  return {
+    snapPoints,
+    minSnap,
+    maxSnap,
+    findSnap,
+    findSnapName,
+    findSnapIndex,
+    findSnapBehavior,
+    maxHeight,
+    keyboardInset,
+  }
 }
 
 function useDimensions({
   contentRef,
   controlledMaxHeight,
+  detached,
+  detachedOffset,
   footerEnabled,
   footerRef,
   headerEnabled,
   headerRef,
+  keyboardAware,
+  placement,
   registerReady,
   resizeSourceRef,
 }: {
   contentRef: React.RefObject<Element>
   controlledMaxHeight?: number
+  detached: boolean
+  detachedOffset: number
   footerEnabled: boolean
   footerRef: React.RefObject<Element>
   headerEnabled: boolean
   headerRef: React.RefObject<Element>
+  keyboardAware: boolean
+  placement: Placement
   registerReady: ReturnType<typeof useReady>['registerReady']
   resizeSourceRef: React.MutableRefObject<ResizeSource>
 }) {
-  const setReady = useMemo(() => registerReady('contentHeight'), [
-    registerReady,
-  ])
-  const maxHeight = useMaxHeight(
+  const setReady = useMemo(
+    () => registerReady('contentHeight'),
+    [registerReady]
+  )
+  const horizontal = isHorizontal(placement)
+  const { maxHeight: viewportHeight, keyboardInset } = useMaxHeight(
     controlledMaxHeight,
     registerReady,
-    resizeSourceRef
+    resizeSourceRef,
+    horizontal,
+    // The soft keyboard only affects the height of the viewport
+    keyboardAware && !horizontal
   )
+  // Detached sheets float above the bottom edge, the space below them isn't available. A controlled maxHeight is used as is.
+  const floating = detached && !controlledMaxHeight
+  const safeAreaInsetBottom = useSafeAreaInsetBottom(floating, viewportHeight)
+  const maxHeight = floating
+    ? Math.max(0, viewportHeight - detachedOffset - safeAreaInsetBottom)
+    : viewportHeight
 
   // @TODO probably better to forward props instead of checking refs to decide if it's enabled
   const headerHeight = useElementSizeObserver(headerRef, {
@@ -140,10 +247,12 @@ function useDimensions({
     enabled: footerEnabled,
     resizeSourceRef,
   })
-  const minHeight =
-    Math.min(maxHeight - headerHeight - footerHeight, contentHeight) +
-    headerHeight +
-    footerHeight
+  // The content is laid out in the width of the sheet when it's on the left or right edge, so it can't tell how wide it wants to be
+  const minHeight = horizontal
+    ? maxHeight
+    : Math.min(maxHeight - headerHeight - footerHeight, contentHeight) +
+      headerHeight +
+      footerHeight
 
   useDebugValue(`minHeight: ${minHeight}`)
 
@@ -159,9 +268,30 @@ function useDimensions({
     minHeight,
     headerHeight,
     footerHeight,
+    keyboardInset,
   }
 }
 
+// env(safe-area-inset-bottom) can only be read from an element it's applied to, it changes when the device is rotated
+function useSafeAreaInsetBottom(enabled: boolean, viewportHeight: number) {
+  const [inset, setInset] = useState(0)
+
+  useLayoutEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    const probe = document.createElement('div')
+    probe.style.cssText =
+      'position: fixed; visibility: hidden; pointer-events: none; padding-bottom: env(safe-area-inset-bottom);'
+    document.body.appendChild(probe)
+    setInset(parseFloat(getComputedStyle(probe).paddingBottom) || 0)
+    document.body.removeChild(probe)
+  }, [enabled, viewportHeight])
+
+  return enabled ? inset : 0
+}
+
 const observerOptions: ResizeObserverOptions = {
   // Respond to changes to padding, happens often on iOS when using env(safe-area-inset-bottom)
   // And the user hides or shows the Safari browser toolbar
@@ -214,17 +344,23 @@ function useElementSizeObserver(
 }
 
 // Blazingly keep track of the current viewport height without blocking the thread, keeping that sweet 60fps on smartphones
+// Side sheets keep track of the viewport width instead
+// When keyboard aware the visual viewport is tracked, so the sheet stays above the soft keyboard on iOS and Android
 function useMaxHeight(
   controlledMaxHeight,
   registerReady: ReturnType<typeof useReady>['registerReady'],
-  resizeSourceRef: React.MutableRefObject<ResizeSource>
+  resizeSourceRef: React.MutableRefObject<ResizeSource>,
+  horizontal: boolean,
+  keyboardAware: boolean
 ) {
   const setReady = useMemo(() => registerReady('maxHeight'), [registerReady])
   const [maxHeight, setMaxHeight] = useState(() =>
     roundAndCheckForNaN(controlledMaxHeight) || typeof window !== 'undefined'
-      ? window.innerHeight
+      ? getViewportSize(horizontal)
       : 0
   )
+  // How much of the bottom of the viewport is covered by the soft keyboard
+  const [keyboardInset, setKeyboardInset] = useState(0)
   const ready = maxHeight > 0
   const raf = useRef(0)
 
@@ -245,6 +381,9 @@ function useMaxHeight(
       return
     }
 
+    const visualViewport = keyboardAware ? window.visualViewport : undefined
+    let lastKeyboardInset = getKeyboardInset(visualViewport)
+
     const handleResize = () => {
       if (raf.current) {
         // bail to throttle the amount of resize changes
@@ -253,22 +392,61 @@ function useMaxHeight(
 
       // throttle state changes using rAF
       raf.current = requestAnimationFrame(() => {
-        setMaxHeight(window.innerHeight)
-        resizeSourceRef.current = 'window'
+        const nextKeyboardInset = getKeyboardInset(visualViewport)
+        setMaxHeight(getViewportSize(horizontal, visualViewport))
+        setKeyboardInset(nextKeyboardInset)
+        resizeSourceRef.current =
+          nextKeyboardInset !== lastKeyboardInset ? 'keyboard' : 'window'
+        lastKeyboardInset = nextKeyboardInset
 
         raf.current = 0
       })
     }
     window.addEventListener('resize', handleResize)
-    setMaxHeight(window.innerHeight)
+    // iOS scrolls the visual viewport instead of resizing it when focusing an input while the keyboard is open
+    visualViewport?.addEventListener('resize', handleResize)
+    visualViewport?.addEventListener('scroll', handleResize)
+    setMaxHeight(getViewportSize(horizontal, visualViewport))
+    setKeyboardInset(lastKeyboardInset)
     resizeSourceRef.current = 'window'
     setReady()
 
     return () => {
       window.removeEventListener('resize', handleResize)
+      visualViewport?.removeEventListener('resize', handleResize)
+      visualViewport?.removeEventListener('scroll', handleResize)
       cancelAnimationFrame(raf.current)
+      raf.current = 0
     }
-  }, [controlledMaxHeight, setReady, resizeSourceRef])
+  }, [
+    controlledMaxHeight,
+    setReady,
+    resizeSourceRef,
+    horizontal,
+    keyboardAware,
+  ])
+
+  return { maxHeight, keyboardInset: controlledMaxHeight ? 0 : keyboardInset }
+}
 
-  return maxHeight
+function getViewportSize(horizontal: boolean, visualViewport?: VisualViewport) {
+  if (horizontal) {
+    return window.innerWidth
+  }
+  return visualViewport && visualViewport.scale === 1
+    ? Math.round(visualViewport.height)
+    : window.innerHeight
+}
+
+function getKeyboardInset(visualViewport?: VisualViewport) {
+  // Pinch zooming also shrinks the visual viewport, it's not the keyboard
+  if (!visualViewport || visualViewport.scale !== 1) {
+    return 0
+  }
+  return Math.max(
+    0,
+    Math.round(
+      window.innerHeight - visualViewport.height - visualViewport.offsetTop
+    )
+  )
 }
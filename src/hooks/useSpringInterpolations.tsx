@@ -1,6 +1,7 @@
 import { interpolate } from 'react-spring'
 import type { Spring } from './useSpring'
-import { clamp } from '../utils'
+import type { Placement } from '../types'
+import { clamp, isHorizontal } from '../utils'
 
 // It's a bit easier to ensure interpolations don't accidentally use the wrong variables by
 // putting them here, in their own closure with explicitly defined variables used
@@ -11,9 +12,27 @@ import { clamp } from '../utils'
 
 export function useSpringInterpolations({
   spring,
+  placement,
+  backdropStops,
+  backdropOpacities,
+  detached,
+  reduceMotion,
 }: {
   spring: Spring
+  placement: Placement
+  // The heights where the backdrop has the matching opacity in backdropOpacities, sorted from smallest to largest
+  backdropStops: number[]
+  backdropOpacities: number[]
+  // Floating above the bottom edge, rounded on all corners
+  detached: boolean
+  // Transitions fade the whole sheet in and out, so the content doesn't fade on its own
+  reduceMotion: boolean
 }): React.CSSProperties {
+  // Sheets on the left or right edge animate their width and move along the x axis
+  const axis = isHorizontal(placement) ? 'x' : 'y'
+  // Sheets on the top or left edge move out of view in the negative direction
+  const sign = placement === 'top' || placement === 'left' ? -1 : 1
+
   // This effect is for removing rounded corners on phones when the sheet touches the top of the browser chrome
   // as it's really ugly with the gaps border radius creates. This ensures it looks sleek.
   // @TODO the ts-ignore comments are because the `extrapolate` param isn't in the TS defs for some reason
@@ -45,15 +64,23 @@ export function useSpringInterpolations({
     [spring.y, spring.minSnap, spring.maxSnap],
     (y, minSnap, maxSnap) => {
       if (y < minSnap) {
-        return `${minSnap - y}px`
+        return `${(minSnap - y) * sign}px`
       }
       if (y > maxSnap) {
-        return `${maxSnap - y}px`
+        return `${(maxSnap - y) * sign}px`
       }
       return '0px'
     }
   )
 
+  // How far a detached sheet is on its way out of view, from 0 at its smallest snap point to 1 when closed.
+  // The gap below it has to be covered as well, or its top edge would still be on screen when it's closed
+  const interpolateDetachedHidden = interpolate(
+    // @ts-ignore
+    [spring.y, spring.minSnap],
+    (y, minSnap) => (minSnap ? clamp((minSnap - y) / minSnap, 0, 1) : 1)
+  )
+
   const interpolateFiller = interpolate(
     // @ts-ignore
     [spring.y, spring.maxSnap],
@@ -72,6 +99,9 @@ export function useSpringInterpolations({
       if (!minSnap) {
         return 0
       }
+      if (reduceMotion) {
+        return 1
+      }
       const minX = Math.max(minSnap / 2 - 45, 0)
       const maxX = Math.min(minSnap / 2 + 45, minSnap)
       const minY = 0
@@ -86,7 +116,11 @@ export function useSpringInterpolations({
   const interpolateBackdrop = interpolate(
     // @ts-ignore
     [spring.y, spring.minSnap],
-    (y, minSnap) => (minSnap ? clamp(y / minSnap, 0, 1) : 0)
+    (y, minSnap) =>
+      minSnap
+        ? clamp(y / minSnap, 0, 1) *
+          interpolateStops(y, backdropStops, backdropOpacities)
+        : 0
   )
 
   return {
@@ -94,13 +128,44 @@ export function useSpringInterpolations({
     ['--rsbs-content-opacity' as any]: interpolateContentOpacity,
     // Fading in the backdrop
     ['--rsbs-backdrop-opacity' as any]: interpolateBackdrop,
+    // Lets taps through the backdrop while it's practically invisible, inherits so it still follows the root while closing
+    ['--rsbs-backdrop-pointer-events' as any]: interpolateBackdrop.interpolate(
+      (opacity: number) => (opacity < 0.05 ? 'none' : 'inherit')
+    ),
     // Scaling the antigap in the bottom
-    ['--rsbs-antigap-scale-y' as any]: interpolateFiller,
+    [`--rsbs-antigap-scale-${axis}` as any]: interpolateFiller,
     // Shifts the position of the bottom sheet, used on open and close primarily as snap point changes usually only interpolate the height
-    ['--rsbs-overlay-translate-y' as any]: interpolateY,
-    // Remove rounded borders when full height, it looks much better this way
-    ['--rsbs-overlay-rounded' as any]: interpolateBorderRadius,
+    [`--rsbs-overlay-translate-${axis}` as any]: interpolateY,
+    // Remove rounded borders when full height, it looks much better this way.
+    // Detached sheets are inset from the edges of the screen, they keep the rounding that's set on them
+    ...(detached
+      ? {
+          ['--rsbs-detached-hidden' as any]: interpolateDetachedHidden,
+          // Only detached sheets round the corners on the edge they're anchored to
+          ['--rsbs-overlay-rounded-bottom' as any]:
+            'var(--rsbs-overlay-rounded)',
+        }
+      : {
+          ['--rsbs-overlay-rounded' as any]: interpolateBorderRadius,
+          ['--rsbs-overlay-rounded-bottom' as any]: '0px',
+        }),
     // Animates the height state, not the most performant way but it's the safest with regards to mobile browser and focus/scrolling that could happen while animating
-    ['--rsbs-overlay-h' as any]: interpolateHeight,
+    // Side sheets animate their width instead
+    [(axis === 'x' ? '--rsbs-overlay-w' : '--rsbs-overlay-h') as any]:
+      interpolateHeight,
+  }
+}
+
+// Linear interpolation between the values given for each stop, so the backdrop fades in and out between them while dragging
+function interpolateStops(y: number, stops: number[], values: number[]) {
+  if (y <= stops[0]) {
+    return values[0]
+  }
+  for (let i = 1; i < stops.length; i++) {
+    if (y <= stops[i]) {
+      const progress = (y - stops[i - 1]) / (stops[i] - stops[i - 1])
+      return values[i - 1] + (values[i] - values[i - 1]) * progress
+    }
   }
+  return values[values.length - 1]
 }
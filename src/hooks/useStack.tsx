@@ -0,0 +1,65 @@
+import { useContext, useDebugValue, useEffect, useRef, useState } from 'react'
+import { StackContext } from '../BottomSheetStack'
+
+let stackId = 0
+
+// Registers the sheet in the nearest BottomSheetStackProvider, if there is one, while it's active
+export function useStack({
+  pause,
+  resume,
+}: {
+  pause: () => void
+  resume: () => void
+}) {
+  const context = useContext(StackContext)
+  const [id] = useState(() => ++stackId)
+  const ref = useRef<{ activate: () => void; deactivate: () => void }>({
+    activate: () => {},
+    deactivate: () => {},
+  })
+
+  // Same as the spring events, avoids the stack holding on to stale callbacks
+  const pauseRef = useRef(pause)
+  const resumeRef = useRef(resume)
+  useEffect(() => {
+    pauseRef.current = pause
+    resumeRef.current = resume
+  }, [pause, resume])
+
+  const push = context?.push
+  const pop = context?.pop
+  useEffect(() => {
+    if (!push || !pop) {
+      return
+    }
+
+    let active = false
+
+    ref.current = {
+      activate: () => {
+        if (active) return
+        active = true
+
+        push({
+          id,
+          pause: () => pauseRef.current(),
+          resume: () => resumeRef.current(),
+        })
+      },
+      deactivate: () => {
+        if (!active) return
+        active = false
+
+        pop(id)
+      },
+    }
+  }, [id, pop, push])
+
+  // 0 is the sheet on top, or a sheet that isn't stacked at all
+  const index = context ? context.stack.indexOf(id) : -1
+  const depth = index === -1 ? 0 : context.stack.length - 1 - index
+
+  useDebugValue(`depth: ${depth}`)
+
+  return { stackRef: ref, depth }
+}
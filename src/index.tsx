@@ -5,9 +5,28 @@ import type { Props, RefHandles, SpringEvent } from './types'
 import { useLayoutEffect } from './hooks'
 import { Portal } from './reach-portal/reach-portal'
 
+export { BottomSheetStackProvider } from './BottomSheetStack'
+export { useBottomSheet } from './useBottomSheet'
+export { cubicBezier, springPresets } from './utils'
+
 export type {
   RefHandles as BottomSheetRef,
   Props as BottomSheetProps,
+  UseBottomSheetOptions,
+  Announcement,
+  AnnouncementProps,
+  Announcements,
+  BottomSheetPlugin,
+  DismissReason,
+  Isolation,
+  PersistStorage,
+  SnapPointBehavior,
+  SnapResolver,
+  SnapStrategy,
+  SpringConfig,
+  SpringConfigOption,
+  SpringEvent,
+  SpringPreset,
 } from './types'
 
 // Because SSR is annoying to deal with, and all the million complaints about window, navigator and dom elenents!
@@ -1,4 +1,4 @@
-import { assign, createMachine, fromPromise } from 'xstate'
+import { assign, createMachine, fromPromise, raise } from 'xstate'
 
 // This is the root machine, composing all the other machines and is the brain of the bottom sheet
 
@@ -66,6 +66,15 @@ interface OverlayStateSchema {
         done: {}
       }
     }
+    // beforeDismiss is given a chance to keep the sheet open, like asking the user to discard unsaved changes
+    dismissing: {
+      states: {
+        // waiting for the promise returned by beforeDismiss
+        confirming: {}
+        // onDismiss is called, waiting for the open prop to turn false
+        confirmed: {}
+      }
+    }
     closing: {
       states: {
         start: {}
@@ -91,13 +100,22 @@ type OverlayEvent =
   | { type: 'CLOSE' }
   | { type: 'DRAG' }
   | { type: 'RESIZE' }
+  | {
+      type: 'DISMISS'
+      payload: {
+        reason: string
+        // The snap point to spring back to if the dismissal is cancelled
+        y: number
+      }
+    }
 
 // The context (extended state) of the machine
-interface OverlayContext {
+export interface OverlayContext {
   initialState: 'OPEN' | 'CLOSED'
   snapSource?: 'dragging' | 'custom' | string
   y?: number
   velocity?: number
+  dismissReason?: string
 }
 function sleep(ms = 1000) {
   return new Promise((resolve) => setTimeout(resolve, ms))
@@ -112,6 +130,9 @@ const openToDrag = {
 const openToResize = {
   RESIZE: { target: '#overlay.resizing', actions: 'onOpenEnd' },
 }
+const openToDismiss = {
+  DISMISS: { target: '#overlay.dismissing', actions: 'onOpenEnd' },
+}
 
 const initiallyOpen = ({ context }) => context.initialState === 'OPEN'
 const initiallyClosed = ({ context }) => context.initialState === 'CLOSED'
@@ -139,6 +160,7 @@ export const overlayMachine = createMachine(
         snapSmoothly: () => Promise<void>
         resizeSmoothly: () => Promise<void>
         closeSmoothly: () => Promise<void>
+        beforeDismiss: () => Promise<boolean>
       }
     },
     id: 'overlay',
@@ -171,7 +193,7 @@ export const overlayMachine = createMachine(
               },
               activating: {
                 invoke: { src: 'activate', onDone: '#overlay.opening.end' },
-                on: { ...openToDrag, ...openToResize },
+                on: { ...openToDrag, ...openToResize, ...openToDismiss },
               },
             },
           },
@@ -186,13 +208,17 @@ export const overlayMachine = createMachine(
               },
               open: {
                 invoke: { src: 'openSmoothly', onDone: '#overlay.opening.end' },
-                on: { ...openToDrag, ...openToResize },
+                on: { ...openToDrag, ...openToResize, ...openToDismiss },
               },
             },
           },
           end: {
             invoke: { src: 'onOpenEnd', onDone: 'done' },
-            on: { CLOSE: '#overlay.closing', DRAG: '#overlay.dragging' },
+            on: {
+              CLOSE: '#overlay.closing',
+              DRAG: '#overlay.dragging',
+              DISMISS: '#overlay.dismissing',
+            },
           },
           done: {
             type: 'final',
@@ -202,10 +228,15 @@ export const overlayMachine = createMachine(
         onDone: 'open',
       },
       open: {
-        on: { DRAG: '#overlay.dragging', SNAP: 'snapping', RESIZE: 'resizing' },
+        on: {
+          DRAG: '#overlay.dragging',
+          SNAP: 'snapping',
+          RESIZE: 'resizing',
+          DISMISS: 'dismissing',
+        },
       },
       dragging: {
-        on: { SNAP: 'snapping' },
+        on: { SNAP: 'snapping', DISMISS: 'dismissing' },
       },
       snapping: {
         initial: 'start',
@@ -257,6 +288,7 @@ export const overlayMachine = createMachine(
           RESIZE: { target: '#overlay.resizing', actions: 'onSnapCancel' },
           DRAG: { target: '#overlay.dragging', actions: 'onSnapCancel' },
           CLOSE: { target: '#overlay.closing', actions: 'onSnapCancel' },
+          DISMISS: { target: '#overlay.dismissing', actions: 'onSnapCancel' },
         },
         onDone: 'open',
       },
@@ -287,9 +319,41 @@ export const overlayMachine = createMachine(
           SNAP: { target: 'snapping', actions: 'onResizeCancel' },
           DRAG: { target: '#overlay.dragging', actions: 'onResizeCancel' },
           CLOSE: { target: '#overlay.closing', actions: 'onResizeCancel' },
+          DISMISS: {
+            target: '#overlay.dismissing',
+            actions: 'onResizeCancel',
+          },
         },
         onDone: 'open',
       },
+      dismissing: {
+        initial: 'confirming',
+        entry: assign(({ event: { payload } }) => ({
+          y: payload.y,
+          dismissReason: payload.reason,
+        })),
+        states: {
+          confirming: {
+            invoke: {
+              src: 'beforeDismiss',
+              input: ({ context }) => ({ reason: context.dismissReason }),
+              onDone: [
+                {
+                  target: 'confirmed',
+                  guard: ({ event }) => event.output !== false,
+                  actions: 'onDismiss',
+                },
+                { actions: 'cancelDismiss' },
+              ],
+              onError: { actions: 'cancelDismiss' },
+            },
+          },
+          confirmed: {
+            on: { DRAG: '#overlay.dragging' },
+          },
+        },
+        on: { SNAP: 'snapping' },
+      },
       closing: {
         initial: 'start',
         states: {
@@ -348,6 +412,18 @@ export const overlayMachine = createMachine(
       onRezizeEnd: (context, event) => {
         console.log('onRezizeEnd', { context, event })
       },
+      onDismiss: (context, event) => {
+        console.log('onDismiss', { context, event })
+      },
+      // Springs back to where the sheet was before the dismissal was attempted
+      cancelDismiss: raise(({ context }) => ({
+        type: 'SNAP' as const,
+        payload: {
+          y: context.y,
+          velocity: 1,
+          source: 'dismiss-cancelled',
+        },
+      })),
     },
     actors: {
       onSnapStart: fromPromise(async () => {
@@ -422,6 +498,13 @@ export const overlayMachine = createMachine(
         await sleep()
         console.groupEnd()
       }),
+      beforeDismiss: fromPromise(async ({ input, system }) => {
+        console.group('beforeDismiss')
+        console.log({ input, system })
+        await sleep()
+        console.groupEnd()
+        return true
+      }),
     },
     guards: { initiallyClosed, initiallyOpen },
   }
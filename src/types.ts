@@ -17,43 +17,229 @@ export type SnapPointProps = {
   minHeight: number
   /**
    * Max height the sheet can be, your snap points are capped to this value. It's window.innerHeight by default but can be overriden using the maxHeight prop.
+   * When the sheet is placed on the left or right edge it's window.innerWidth instead, and all snap points are widths.
    */
   maxHeight: number
 }
 
-export type snapPoints = (props: SnapPointProps) => number[] | number
+/**
+ * The edge of the viewport the sheet is anchored to, and slides in from
+ */
+export type Placement = 'bottom' | 'top' | 'left' | 'right'
+
+/**
+ * A snap point can be a number in px, or a descriptor that is resolved to px:
+ * - `'50%'` is relative to `maxHeight`, while `'50vh'` is relative to the viewport height.
+ * - `'content'` is the `minHeight`, just enough to show all the content without scrolling, if possible.
+ * - `'header'` is the `headerHeight`, only the header is visible.
+ * - `{ px: 200 }` is the same as `200`.
+ * - `{ name: 'peek', value: 120 }` gives the snap point a name, that can be used with `snapTo('peek')` and `defaultSnap`.
+ *   The `value` can be any of the above.
+ * - `{ value: '90%', blocking: true }` changes how the sheet behaves while it's at the snap point, see `SnapPointBehavior`.
+ */
+export type SnapPoint =
+  | number
+  | `${number}%`
+  | `${number}vh`
+  | 'content'
+  | 'header'
+  | { px: number }
+  | ({ name?: string; value: SnapPoint } & SnapPointBehavior)
+
+/**
+ * Overrides for how the sheet behaves while it's resting at a snap point, anything that isn't set follows the props
+ */
+export type SnapPointBehavior = {
+  /**
+   * Whether the content can be scrolled.
+   * @default true
+   */
+  scrollable?: boolean
+  /**
+   * Whether the backdrop is shown, or its opacity from `0` to `1`.
+   * @default blocking
+   */
+  backdrop?: boolean | number
+  /**
+   * Whether the sheet blocks the rest of the page, the backdrop catches taps, focus is trapped and the page is hidden from screen readers.
+   * @default the blocking prop
+   */
+  blocking?: boolean
+  /**
+   * Whether dragging the content moves the sheet.
+   * @default the expandOnContentDrag prop
+   */
+  expandOnContentDrag?: boolean
+  /**
+   * Describes the snap point to screen readers, on the drag handle and in announcements.
+   */
+  label?: string
+}
+
+/**
+ * Either a snap point, the name of a named snap point, or the index of a snap point sorted from smallest to largest
+ */
+export type SnapTarget = SnapPoint | string | { index: number }
+
+export type snapPoints = (props: SnapPointProps) => SnapPoint[] | SnapPoint
+
+/**
+ * Picks the height the sheet should snap to when a drag ends.
+ * `from` is the height the drag started at, `projected` is where the sheet would end up if it kept moving for a bit,
+ * `velocity` is in px/ms and positive when the sheet is growing.
+ * The returned height doesn't need to be exact, the closest snap point is used.
+ */
+export type SnapResolver = (
+  from: number,
+  projected: number,
+  velocity: number,
+  snapPoints: number[]
+) => number
+
+/**
+ * - `'closest'` snaps to the snap point closest to where the sheet is projected to end up.
+ * - `'next'` snaps to the next snap point in the direction the sheet is flicked, or the closest one if it isn't flicked.
+ * - `'momentum'` projects where the sheet would come to rest, using a deceleration rate like iOS scroll views do.
+ *   Use `{ type: 'momentum', decelerationRate: 0.99 }` for a shorter throw than the default of `0.998`.
+ */
+export type SnapStrategy =
+  | 'closest'
+  | 'next'
+  | 'momentum'
+  | { type: 'momentum'; decelerationRate?: number }
+  | SnapResolver
 
 /**
  * `window` comes from window.onresize, maxheightprop is if the `maxHeight` prop is used, and `element` comes from the resize observers that listens to header, footer and the content area
+ * `keyboard` is when the soft keyboard is shown or hidden, only used with `keyboardAware`
+ */
+export type ResizeSource = 'window' | 'maxheightprop' | 'element' | 'keyboard'
+
+/**
+ * What made the sheet want to close, `'programmatic'` is used by `ref.current.dismiss()` and `'back'` by the back button with `closeOnBack`
  */
-export type ResizeSource = 'window' | 'maxheightprop' | 'element'
+export type DismissReason =
+  | 'drag'
+  | 'backdrop'
+  | 'escape'
+  | 'back'
+  | 'programmatic'
+
+export type AnnouncementProps = {
+  /** The index of the snap point the sheet is at, sorted from smallest to largest */
+  snapIndex: number
+  snapCount: number
+  /** Set when the snap point is a named one */
+  snapName?: string
+  /** Set when the snap point has a `label` */
+  snapLabel?: string
+}
+
+export type Announcement =
+  | string
+  | ((props: AnnouncementProps) => string | null | undefined)
+
+/**
+ * The messages screen readers hear when the sheet changes, replace them to localize them
+ */
+export type Announcements = {
+  opened: Announcement
+  closed: Announcement
+  /** Snapped to the largest snap point */
+  expanded: Announcement
+  /** Snapped to the smallest snap point */
+  collapsed: Announcement
+  /** Snapped to any other snap point */
+  snapped: Announcement
+}
+
+/**
+ * How the rest of the page is kept out of reach while a blocking sheet is open.
+ * `'inert'` falls back to `'aria-hidden'` in browsers that don't support it.
+ */
+export type Isolation = 'aria-hidden' | 'inert'
+
+/**
+ * Where `persistKey` saves the sheet's state, anything with the `getItem` and `setItem` methods of `localStorage` works
+ */
+export type PersistStorage = Pick<Storage, 'getItem' | 'setItem'>
 
 export type defaultSnapProps = {
-  /** The snap points currently in use, this can be controlled by providing a `snapPoints` function on the bottom sheet. */
+  /** The snap points currently in use, sorted from smallest to largest, this can be controlled by providing a `snapPoints` function on the bottom sheet. */
   snapPoints: number[]
   /** The last snap point the user dragged to, if any. 0 if the user haven't interacted */
   lastSnap: number | null
 } & SnapPointProps
 
 /* Might make sense to expose a preventDefault method here */
-export type SpringEvent =
-  | { type: 'OPEN' }
+export type SpringEvent = (
+  | {
+      type: 'OPEN'
+      /** The name of the snap point, if the sheet is opening to a named snap point */
+      snapName?: string
+    }
   | { type: 'CLOSE' }
-  | { type: 'RESIZE'; source: ResizeSource }
-  | { type: 'SNAP'; source: 'dragging' | 'custom' | string }
+  | {
+      type: 'RESIZE'
+      source: ResizeSource
+      /** The name of the snap point the sheet ended up at, if it's a named one */
+      snapName?: string
+    }
+  | {
+      type: 'SNAP'
+      source: 'dragging' | 'custom' | string
+      /** The name of the snap point, if the sheet is snapping to a named snap point */
+      snapName?: string
+    }
+) & {
+  /**
+   * Aborted when the transition is over, or when it's interrupted by another one, like a drag while snapping.
+   * The start, cancel and end events of a transition share the same signal.
+   */
+  signal: AbortSignal
+}
+
+/**
+ * Side effects that run while the sheet is open, the same contract the built-in scroll lock, focus trap and aria hider use.
+ * `activate` is called when the sheet is opening, return a promise to hold the opening transition until it resolves.
+ * `deactivate` is called when the sheet is closing, or unmounted. They're also deactivated while another sheet is stacked on top.
+ */
+export type BottomSheetPlugin = {
+  activate: () => void | Promise<void>
+  deactivate: () => void
+}
 
 /**
  * Properties that can be used to customize the animation.
  * see https://react-spring.dev/docs/advanced/config#config-visualizer
  */
 export type SpringConfig = {
-  mass: number
-  tension: number
-  friction: number
-  velocity: number
-  duration: number
+  mass?: number
+  tension?: number
+  friction?: number
+  velocity?: number
+  /** Animates over this many milliseconds with `easing`, instead of using spring physics */
+  duration?: number
+  /** Maps the progress of a `duration` based transition, from 0 to 1. Use `cubicBezier` to follow a CSS motion spec */
+  easing?: (t: number) => number
+  /** Stops the spring when it reaches its target, instead of overshooting it */
+  clamp?: boolean
 }
 
+/**
+ * `'gentle'` is slow and soft, `'snappy'` quick and firm, `'ios'` feels like the sheets on iOS and `'default'` is the built-in transition
+ */
+export type SpringPreset = 'default' | 'gentle' | 'snappy' | 'ios'
+
+/**
+ * One config or preset for every transition, one for each type of transition, or a function that picks one for the event
+ */
+export type SpringConfigOption =
+  | SpringConfig
+  | SpringPreset
+  | Partial<Record<SpringEvent['type'], SpringConfig | SpringPreset>>
+  | ((event: SpringEvent) => SpringConfig | SpringPreset | undefined)
+
 export type Props = {
   /**
    * Ensure that whatever you put in here have at least 1px height, or else the bottom sheet won't open
@@ -67,10 +253,59 @@ export type Props = {
    */
   sibling?: React.ReactNode
 
+  /**
+   * Additional CSS class for the container.
+   */
+  className?: string
+
+  /**
+   * Renders a sticky footer at the bottom of the sheet.
+   */
+  footer?: React.ReactNode
+
+  /**
+   * Renders below the drag handle, set to `false` to disable the drag handle
+   * @default true
+   */
+  header?: React.ReactNode | false
+
+  /**
+   * Renders a heading at the top of the header that labels the sheet, screen readers announce it when the sheet opens.
+   * Use `aria-labelledby` instead if the heading is already part of your `header`.
+   */
+  title?: React.ReactNode
+
+  /**
+   * Renders below the `title`, and describes the sheet to screen readers.
+   * Use `aria-describedby` instead if the description is already part of your content.
+   */
+  description?: React.ReactNode
+
+  /**
+   * Open immediatly instead of initially animating from a closed => open state, useful if the bottom sheet is visible by default and the animation would be distracting
+   */
+  skipInitialTransition?: boolean
+
+  /**
+   * Whether the bottom sheet should be mounted when it's closed.
+   * @default false
+   */
+  keepMounted?: boolean
+} & BottomSheetOptions &
+  Omit<
+    React.PropsWithoutRef<JSX.IntrinsicElements['div']>,
+    'children' | 'title'
+  >
+
+/**
+ * The behaviour of the sheet, shared by the BottomSheet component and the headless useBottomSheet hook
+ */
+export type BottomSheetOptions = {
   /**
    * Pass the spring configurations (to change animation) in this format: { mass, tension, friction }.
+   * Or a preset, a map with a config for each `SpringEvent` type like `{ OPEN: 'gentle', SNAP: 'snappy' }`, or a function of the event.
    */
-  springConfig?: SpringConfig
+  springConfig?: SpringConfigOption
 
   /**
    * Scroller target
@@ -98,31 +333,58 @@ export type Props = {
   open: boolean
 
   /**
-   * Additional CSS class for the container.
+   * A reference to the element that should be focused. By default it'll be the first interactive element.
+   * Set to false to disable keyboard focus when opening.
    */
-  className?: string
+  initialFocusRef?: React.RefObject<HTMLElement> | false
 
   /**
-   * Renders a sticky footer at the bottom of the sheet.
+   * Moves focus back to what had focus before the sheet opened, after the close transition.
+   * Give it a function to pick the element yourself, for example when the trigger might be unmounted by then.
+   * @default true
    */
-  footer?: React.ReactNode
+  returnFocus?: boolean | (() => HTMLElement | null | undefined)
 
   /**
-   * Renders below the drag handle, set to `false` to disable the drag handle
-   * @default true
+   * The element that should receive focus after the sheet closes, takes precedence over the element that had focus before it opened.
    */
-  header?: React.ReactNode | false
+  returnFocusRef?: React.RefObject<HTMLElement>
 
   /**
-   * A reference to the element that should be focused. By default it'll be the first interactive element.
-   * Set to false to disable keyboard focus when opening.
+   * Handler that is called when the user presses *esc*, clicks outside the dialog or drags the sheet to the bottom of the display.
    */
-  initialFocusRef?: React.RefObject<HTMLElement> | false
+  onDismiss?: (reason: DismissReason) => void
 
   /**
-   * Handler that is called when the user presses *esc*, clicks outside the dialog or drags the sheet to the bottom of the display.
+   * Pushes a history entry when the sheet opens, so the back button calls `onDismiss` with `'back'` instead of leaving the page.
+   * The entry is removed again when the sheet is closed some other way.
+   * @default false
+   */
+  closeOnBack?: boolean
+
+  /**
+   * Called before `onDismiss`, return `false` to keep the sheet open, for example when a form has unsaved changes.
+   */
+  shouldDismiss?: (reason: DismissReason) => boolean
+
+  /**
+   * Like `shouldDismiss`, but it can return a promise, for example one that resolves when the user answers a "discard changes?" dialog.
+   * While it's pending the sheet can't be dragged, if it resolves to `false` the sheet springs back to the last snap point
+   * with `source: 'dismiss-cancelled'`.
+   */
+  beforeDismiss?: (reason: DismissReason) => boolean | Promise<boolean>
+
+  /**
+   * How far below the smallest snap point the sheet has to be dragged before it's dismissed, as a fraction of the smallest snap point.
+   * @default 0.5
+   */
+  dismissThreshold?: number
+
+  /**
+   * Flicking the sheet towards the edge faster than this, in px/ms, dismisses it once it's below the smallest snap point.
+   * @default Infinity
    */
-  onDismiss?: () => void
+  dismissVelocityThreshold?: number
 
   /**
    * Whether the bottom sheet should block interactions with the rest of the page or not.
@@ -130,6 +392,24 @@ export type Props = {
    */
   blocking?: boolean
 
+  /**
+   * How the rest of the page is isolated when `blocking`. `'aria-hidden'` hides it from screen readers,
+   * `'inert'` also makes it unreachable by keyboard and pointer.
+   * @default 'aria-hidden'
+   */
+  isolation?: Isolation
+
+  /**
+   * Selectors for elements on `body` that should stay interactive while the sheet is blocking, like toasts.
+   */
+  isolationAllowList?: string[]
+
+  /**
+   * The backdrop fades in from the first snap point to the second one, instead of being fully shown at every snap point.
+   * Takes precedence over `backdrop` on snap points.
+   */
+  backdropRange?: [SnapTarget, SnapTarget]
+
   /**
    * By default the maxHeight is set to window.innerHeight to match 100vh, and responds to window resize events.
    * You can override it by giving maxHeight a number, just make sure you handle things like resize events when needed.
@@ -145,15 +425,98 @@ export type Props = {
 
   /**
    * Handler that is called to get the height values that the bottom sheet can *snap* to when the user stops dragging.
+   * If the snap points don't depend on the state they can be given directly, like `['content', '90%']`.
    * @default ({ minHeight }) => minHeight
    */
-  snapPoints?: snapPoints
+  snapPoints?: snapPoints | SnapPoint[] | SnapPoint
+
+  /**
+   * How the snap point is picked when the user stops dragging, can be one of the built-in strategies or your own resolver.
+   * @default 'closest'
+   */
+  snapStrategy?: SnapStrategy
 
   /**
    * Handler that is called to get the initial height of the bottom sheet when it's opened (or when the viewport is resized).
    * @default ({ snapPoints, lastSnap }) => lastSnap ?? Math.min(...snapPoints)
    */
-  defaultSnap?: number | ((props: defaultSnapProps) => number)
+  defaultSnap?: SnapTarget | ((props: defaultSnapProps) => SnapTarget)
+
+  /**
+   * Tracks the visual viewport, so the sheet shrinks and moves above the soft keyboard on iOS and Android,
+   * and the focused input stays visible. Resizing caused by the keyboard is reported with `source: 'keyboard'`.
+   * @default false
+   */
+  keyboardAware?: boolean
+
+  /**
+   * Floats the sheet above the bottom edge, inset with margins and rounded on all corners, like the detached sheets on iOS.
+   * Only used with the `bottom` placement.
+   * @default false
+   */
+  detached?: boolean
+
+  /**
+   * How far above the bottom edge a detached sheet floats, in pixels. `env(safe-area-inset-bottom)` is added on top of it.
+   * @default 16
+   */
+  detachedOffset?: number
+
+  /**
+   * Saves the last snap point under this key, and restores it the next time the sheet mounts, instead of using `defaultSnap`.
+   * When the snap points changed since, it's restored to the snap point with the same name, or index, or the closest one.
+   */
+  persistKey?: string
+
+  /**
+   * Where `persistKey` saves to. `'memory'` is kept until the page reloads, `'session'` and `'local'` use `sessionStorage` and `localStorage`.
+   * @default 'memory'
+   */
+  persistStorage?: 'memory' | 'session' | 'local' | PersistStorage
+
+  /**
+   * Saves and restores the scroll offset of the content along with the snap point, when using `persistKey`.
+   * @default false
+   */
+  persistScroll?: boolean
+
+  /**
+   * Register your own side effects, like analytics, pausing video or changing the theme-color meta tag,
+   * that are activated and deactivated at the same points in the lifecycle as the built-in ones.
+   */
+  plugins?: BottomSheetPlugin[]
+
+  /**
+   * Announces when the sheet opens, closes or snaps in a polite live region, for screen readers.
+   * Give it your own messages to localize them, or `false` to turn it off.
+   */
+  announcements?: Partial<Announcements> | false
+
+  /**
+   * The accessible name of the drag handle, screen readers announce it together with the snap point it's at.
+   * @default 'Sheet size'
+   */
+  handleLabel?: string
+
+  /**
+   * Opening and closing fades the sheet in and out instead of sliding it, and snapping eases into the snap point without overshooting.
+   * `'user'` follows `prefers-reduced-motion`, and picks up changes to it while the sheet is open.
+   * @default 'user'
+   */
+  reducedMotion?: 'user' | 'always' | 'never'
+
+  /**
+   * Controls which snap point the sheet is at, by its index in the snap points sorted from smallest to largest.
+   * Use it together with `onSnapChange` to keep the position of the sheet in sync with your app state.
+   * When the sheet opens it's used instead of `defaultSnap`, and whenever the sheet comes to rest at another snap point it springs back to it.
+   */
+  snapIndex?: number
+
+  /**
+   * Called when the sheet comes to rest at a different snap point than before, after opening, snapping or resizing.
+   * `source` is the same as `event.source` on the `SNAP` and `RESIZE` spring events, and `'open'` when opening.
+   */
+  onSnapChange?: (index: number, height: number, source: string) => void
 
   /**
    * Configures body-scroll-lock to reserve scrollbar gap by setting padding on <body>, clears when closing the bottom sheet.
@@ -162,11 +525,6 @@ export type Props = {
    */
   reserveScrollBarGap?: boolean
 
-  /**
-   * Open immediatly instead of initially animating from a closed => open state, useful if the bottom sheet is visible by default and the animation would be distracting
-   */
-  skipInitialTransition?: boolean
-
   /**
    * Expand the bottom sheet on the content dragging. By default user can expand the bottom sheet only by dragging the header or overlay. This option enables expanding on dragging the content.
    * @default expandOnContentDrag === false
@@ -174,26 +532,85 @@ export type Props = {
   expandOnContentDrag?: boolean
 
   /**
-   * Whether the bottom sheet should be mounted when it's closed.
+   * The edge of the viewport the sheet is anchored to. Snap points, dragging and dismissing all follow the placement,
+   * for `left` and `right` the snap points are widths instead of heights.
+   * @default 'bottom'
+   */
+  placement?: Placement
+}
+
+export type UseBottomSheetOptions = BottomSheetOptions & {
+  /**
+   * Whether you render a header and attach `headerRef` to it, its height is used for the snap points.
+   * @default true
+   */
+  hasHeader?: boolean
+
+  /**
+   * Whether you render a footer and attach `footerRef` to it, its height is used for the snap points.
+   * @default true
+   */
+  hasFooter?: boolean
+
+  /**
+   * Whether you render a title with `id={titleId}`, it's used to label the dialog.
    * @default false
    */
-  keepMounted?: boolean
-} & Omit<React.PropsWithoutRef<JSX.IntrinsicElements['div']>, 'children'>
+  hasTitle?: boolean
+
+  /**
+   * Whether you render a description with `id={descriptionId}`, it's used to describe the dialog.
+   * @default false
+   */
+  hasDescription?: boolean
+
+  /**
+   * Labels the dialog, when there's no visible title.
+   */
+  'aria-label'?: string
+
+  /**
+   * The id of the element that labels the dialog, takes precedence over `hasTitle`.
+   */
+  'aria-labelledby'?: string
+
+  /**
+   * The id of the element that describes the dialog, takes precedence over `hasDescription`.
+   */
+  'aria-describedby'?: string
+
+  /**
+   * Keeps track of the last snap point the user snapped to, pass your own ref to remember it across mounts.
+   */
+  lastSnapRef?: React.MutableRefObject<number | null>
+
+  /**
+   * Whether the sheet starts out open, instead of transitioning to open.
+   * @default 'CLOSED'
+   */
+  initialState?: 'OPEN' | 'CLOSED'
+}
 
 export interface RefHandles {
   /**
    * When given a number it'll find the closest snap point, so you don't need to know the exact value,
    * Use the callback method to access what snap points you can choose from.
+   * Snap point descriptors like `'50%'` are resolved the same way as in `snapPoints`, and named snap points can be selected by name.
    *
    * Use the second argument for advanced settings like:
    * `source: string` which is passed to onSpring events, and is 'custom' by default
    * `velocity: number` which is 1 by default, adjust it to control the speed of the spring transition to the new snap point
    */
   snapTo: (
-    numberOrCallback: number | ((state: defaultSnapProps) => number),
+    numberOrCallback: SnapTarget | ((state: defaultSnapProps) => SnapTarget),
     options?: { source?: string; velocity?: number }
   ) => void
 
+  /**
+   * Asks the sheet to close, calls `onDismiss` with `'programmatic'` unless `shouldDismiss` vetoes it.
+   */
+  dismiss: () => void
+
   /**
    * Returns the current snap point, in other words the height.
    * It's update lifecycle with events are onSpringStart and onSpringCancel will give you the old value, while onSpringEnd will give you the current one.
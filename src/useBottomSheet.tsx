@@ -0,0 +1,1472 @@
+// The headless version of the bottom sheet. It runs the whole engine, the overlay machine, snap points, spring and gestures,
+// while leaving the markup up to you. The BottomSheet component is built on top of it.
+
+import { useMachine } from '@xstate/react'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { config } from 'react-spring'
+import { rubberbandIfOutOfBounds, useDrag } from 'react-use-gesture'
+import { fromPromise } from 'xstate'
+import {
+  useAnnouncer,
+  useAriaHider,
+  useCloseOnBack,
+  useFocusTrap,
+  useLayoutEffect,
+  useReady,
+  useReducedMotion,
+  usePersistence,
+  useReturnFocus,
+  useScrollLock,
+  useSnapPoints,
+  useSpring,
+  useSpringInterpolations,
+  useStack,
+} from './hooks'
+import type { PersistedState } from './hooks/usePersistence'
+import { overlayMachine } from './machines/overlay'
+import type {
+  BottomSheetPlugin,
+  defaultSnapProps,
+  DismissReason,
+  RefHandles,
+  ResizeSource,
+  SnapPointProps,
+  SpringEvent,
+  UseBottomSheetOptions,
+} from './types'
+import {
+  clamp,
+  isHorizontal,
+  resolveSnapTarget,
+  resolveSpringConfig,
+  scrollWithMomentum,
+} from './utils'
+
+const { tension, friction } = config.default
+
+export function useBottomSheet({
+  open: _open,
+  initialState = 'CLOSED',
+  lastSnapRef: _lastSnapRef,
+  hasHeader = true,
+  hasFooter = true,
+  hasTitle = false,
+  hasDescription = false,
+  'aria-label': ariaLabel,
+  'aria-labelledby': ariaLabelledBy,
+  'aria-describedby': ariaDescribedBy,
+  initialFocusRef,
+  returnFocus = true,
+  returnFocusRef,
+  onDismiss,
+  closeOnBack = false,
+  shouldDismiss,
+  beforeDismiss,
+  dismissThreshold = 0.5,
+  dismissVelocityThreshold = Infinity,
+  maxHeight: controlledMaxHeight,
+  defaultSnap: getDefaultSnap = _defaultSnap,
+  snapPoints: getSnapPoints = _snapPoints,
+  blocking = true,
+  backdropRange,
+  isolation = 'aria-hidden',
+  isolationAllowList,
+  scrollerRef,
+  scrollLocking = true,
+  springConfig,
+  onSpringStart,
+  onSpringCancel,
+  onSpringEnd,
+  reserveScrollBarGap = blocking,
+  expandOnContentDrag = false,
+  placement = 'bottom',
+  snapIndex,
+  onSnapChange,
+  keyboardAware = false,
+  detached = false,
+  detachedOffset = 16,
+  persistKey,
+  persistStorage = 'memory',
+  persistScroll = false,
+  plugins,
+  snapStrategy = 'closest',
+  announcements = {},
+  handleLabel = 'Sheet size',
+  reducedMotion = 'user',
+}: UseBottomSheetOptions) {
+  // The last point that the user snapped to, the BottomSheet component keeps it across open and close transitions
+  const defaultLastSnapRef = useRef<number | null>(null)
+  const lastSnapRef = _lastSnapRef ?? defaultLastSnapRef
+
+  // Before any animations can start we need to measure a few things, like the viewport and the dimensions of content, and header + footer if they exist
+  // @TODO make ready its own state perhaps, before open or closed
+  const { ready, registerReady } = useReady()
+
+  // Controls the drag handler, used by spring operations that happen outside the render loop in React
+  const canDragRef = useRef(false)
+
+  // This way apps don't have to remember to wrap their callbacks in useCallback to avoid breaking the sheet
+  const onSpringStartRef = useRef(onSpringStart)
+  const onSpringCancelRef = useRef(onSpringCancel)
+  const onSpringEndRef = useRef(onSpringEnd)
+  const onSnapChangeRef = useRef(onSnapChange)
+  const onDismissRef = useRef(onDismiss)
+  const beforeDismissRef = useRef(beforeDismiss)
+  useEffect(() => {
+    onSpringStartRef.current = onSpringStart
+    onSpringCancelRef.current = onSpringCancel
+    onSpringEndRef.current = onSpringEnd
+    onSnapChangeRef.current = onSnapChange
+    onDismissRef.current = onDismiss
+    beforeDismissRef.current = beforeDismiss
+  }, [
+    onSpringCancel,
+    onSpringStart,
+    onSpringEnd,
+    onSnapChange,
+    onDismiss,
+    beforeDismiss,
+  ])
+
+  // Behold, the engine of it all!
+  const [spring, set] = useSpring()
+
+  const defaultScrollerRef = useRef<HTMLDivElement>(null)
+  const scrollRef = scrollerRef ?? defaultScrollerRef
+  const containerRef = useRef<HTMLDivElement>(null)
+  const contentRef = useRef<HTMLDivElement>(null)
+  const headerRef = useRef<HTMLDivElement>(null)
+  const footerRef = useRef<HTMLDivElement>(null)
+  const overlayRef = useRef<HTMLDivElement | null>(null)
+
+  // Keeps track of the current height, or the height transitioning to
+  const heightRef = useRef(0)
+  const resizeSourceRef = useRef<ResizeSource>()
+  // The scroll container and sheet position during a drag that started on the content, when expandOnContentDrag.
+  // owner is decided by the first movement, the sheet takes over from native scrolling only at the edges of the scroll container
+  const contentDragRef = useRef<{
+    scroller: Element
+    y: number
+    lastMy: number
+    moved: boolean
+    owner: 'sheet' | 'scroll' | null
+  }>(null)
+  const stopMomentumRef = useRef<() => void>()
+
+  const { reduceMotionRef, reduceMotion } = useReducedMotion(reducedMotion)
+
+  const {
+    snapPoints,
+    minSnap,
+    maxSnap,
+    maxHeight,
+    findSnap,
+    findSnapName,
+    findSnapIndex,
+    findSnapBehavior,
+    keyboardInset,
+  } = useSnapPoints({
+    contentRef,
+    controlledMaxHeight,
+    footerEnabled: hasFooter,
+    footerRef,
+    getSnapPoints,
+    headerEnabled: hasHeader,
+    headerRef,
+    heightRef,
+    keyboardAware,
+    // Only sheets on the bottom edge can float above it
+    detached: detached && placement === 'bottom',
+    detachedOffset,
+    lastSnapRef,
+    placement,
+    ready,
+    registerReady,
+    resizeSourceRef,
+  })
+
+  // Restores the snap point saved under persistKey, until the sheet snaps somewhere else
+  const {
+    persisted,
+    save: savePersisted,
+    getState: getPersisted,
+  } = usePersistence({
+    persistKey,
+    storage: persistStorage,
+  })
+  const restoredSnap =
+    persisted && lastSnapRef.current === null
+      ? restoreSnap(persisted)
+      : undefined
+  function restoreSnap({ name, index, snapCount, snap }: PersistedState) {
+    const named =
+      name === undefined
+        ? undefined
+        : snapPoints.find((point) => findSnapName(point) === name)
+    if (named !== undefined) {
+      return named
+    }
+    // Snap points that still exist are found by their index, otherwise the closest one to the saved height is used
+    return snapCount === snapPoints.length && snapPoints[index] !== undefined
+      ? snapPoints[index]
+      : findSnap(snap)
+  }
+  // A controlled snapIndex takes precedence over defaultSnap, a restored snap point is given to it as the lastSnap
+  const defaultSnap = useMemo(
+    () =>
+      snapIndex !== undefined
+        ? { index: snapIndex }
+        : restoredSnap === undefined
+        ? getDefaultSnap
+        : typeof getDefaultSnap === 'function'
+        ? (props: defaultSnapProps) =>
+            getDefaultSnap({ ...props, lastSnap: restoredSnap })
+        : restoredSnap,
+    [snapIndex, restoredSnap, getDefaultSnap]
+  )
+
+  // The snap point the sheet rests at, as state so the drag handle can render its aria-valuenow, and the snap point behaviour can be applied
+  const [currentSnapIndex, setCurrentSnapIndex] = useState(-1)
+  // Until the sheet is done opening, the snap point it's opening to decides the behaviour
+  const restingSnap = !ready
+    ? minSnap
+    : currentSnapIndex === -1
+    ? findSnap(defaultSnap)
+    : snapPoints[currentSnapIndex]
+  const { label: snapLabel, ...behavior } = findSnapBehavior(restingSnap)
+  const isBlocking = behavior.blocking ?? blocking
+  const snapBehavior = {
+    blocking: isBlocking,
+    backdrop:
+      behavior.backdrop === undefined ? isBlocking : !!behavior.backdrop,
+    scrollable: behavior.scrollable ?? true,
+    expandOnContentDrag: behavior.expandOnContentDrag ?? expandOnContentDrag,
+  }
+
+  // "Plugins" huhuhu
+  const scrollLockRef = useScrollLock({
+    targetRef: scrollRef,
+    containerRef,
+    // The page behind can be scrolled at snap points that don't block it
+    enabled: ready && scrollLocking && behavior.blocking !== false,
+    reserveScrollBarGap,
+  })
+  const ariaHiderRef = useAriaHider({
+    targetRef: containerRef,
+    enabled: ready && isBlocking,
+    isolation,
+    allowList: isolationAllowList,
+  })
+  const focusTrapRef = useFocusTrap({
+    targetRef: containerRef,
+    fallbackRef: overlayRef,
+    initialFocusRef: initialFocusRef || undefined,
+    enabled: ready && isBlocking && initialFocusRef !== false,
+  })
+  const returnFocusHandleRef = useReturnFocus({
+    targetRef: containerRef,
+    returnFocus,
+    returnFocusRef,
+  })
+  // Userland plugins follow the same contract, and run right after the built-in ones
+  const pluginsRef = useRef(plugins)
+  useEffect(() => {
+    pluginsRef.current = plugins
+  }, [plugins])
+
+  // Whether the sheet is open and on top of the stack, which is when the plugins are active
+  const pluginsActiveRef = useRef(false)
+  // The plugins prop might change while they're active, the ones that were activated are the ones that get deactivated
+  const activePluginsRef = useRef<BottomSheetPlugin[]>([])
+  const activatePlugins = useCallback(
+    ({ initialFocus = true }: { initialFocus?: boolean } = {}) => {
+      pluginsActiveRef.current = true
+      activePluginsRef.current = pluginsRef.current ?? []
+      return Promise.all([
+        scrollLockRef.current.activate(),
+        focusTrapRef.current.activate({ initialFocus }),
+        ariaHiderRef.current.activate(),
+        ...activePluginsRef.current.map((plugin) =>
+          runPlugin(() => plugin.activate())
+        ),
+      ])
+    },
+    [ariaHiderRef, focusTrapRef, scrollLockRef]
+  )
+  const deactivatePlugins = useCallback(() => {
+    pluginsActiveRef.current = false
+    scrollLockRef.current.deactivate()
+    focusTrapRef.current.deactivate()
+    ariaHiderRef.current.deactivate()
+    activePluginsRef.current.forEach((plugin) =>
+      runPlugin(() => plugin.deactivate())
+    )
+    activePluginsRef.current = []
+  }, [ariaHiderRef, focusTrapRef, scrollLockRef])
+
+  // Snap points can turn blocking on and off while the sheet is open. The built-in plugins deactivate themselves when they're disabled,
+  // but the ones that were just enabled need to be activated. They ignore being activated twice, userland plugins might not so they're left alone.
+  // The aria hider is replaced when the isolation changes, the new one is activated the same way
+  useEffect(() => {
+    if (!pluginsActiveRef.current) return
+    scrollLockRef.current.activate()
+    focusTrapRef.current.activate()
+    ariaHiderRef.current.activate()
+  }, [
+    ariaHiderRef,
+    focusTrapRef,
+    scrollLockRef,
+    isBlocking,
+    behavior.blocking,
+    isolation,
+  ])
+
+  // When another sheet opens on top of this one it takes over the plugins, and hands them back when it closes.
+  // Focus isn't moved when resuming, the sheet that closed returns it to whatever opened it
+  const resumePlugins = useCallback(
+    () => activatePlugins({ initialFocus: false }),
+    [activatePlugins]
+  )
+  const { stackRef, depth: stackDepth } = useStack({
+    pause: deactivatePlugins,
+    resume: resumePlugins,
+  })
+
+  // Setup refs that are used in cases where full control is needed over when a side effect is executed
+  const maxHeightRef = useRef(maxHeight)
+  const snapPointsRef = useRef(snapPoints)
+  const minSnapRef = useRef(minSnap)
+  const maxSnapRef = useRef(maxSnap)
+  const findSnapRef = useRef(findSnap)
+  const findSnapNameRef = useRef(findSnapName)
+  const findSnapIndexRef = useRef(findSnapIndex)
+  const findSnapBehaviorRef = useRef(findSnapBehavior)
+  const defaultSnapRef = useRef(0)
+  // Sync the refs with current state, giving the spring full control over when to respond to changes
+  useLayoutEffect(() => {
+    maxHeightRef.current = maxHeight
+    snapPointsRef.current = snapPoints
+    maxSnapRef.current = maxSnap
+    minSnapRef.current = minSnap
+    findSnapRef.current = findSnap
+    findSnapNameRef.current = findSnapName
+    findSnapIndexRef.current = findSnapIndex
+    findSnapBehaviorRef.current = findSnapBehavior
+    // The default snap point can't be resolved before the snap points are known, the sheet doesn't open until then anyway
+    if (ready) {
+      defaultSnapRef.current = findSnap(defaultSnap)
+    }
+  }, [
+    findSnap,
+    findSnapName,
+    findSnapIndex,
+    findSnapBehavior,
+    defaultSnap,
+    maxHeight,
+    maxSnap,
+    minSnap,
+    ready,
+    snapPoints,
+  ])
+
+  // The snap index last given to onSnapChange, so it's only called when it actually changes
+  const reportedSnapIndexRef = useRef<number>(null)
+  const reportSnapChange = useCallback(
+    (source: string) => {
+      const index = findSnapIndexRef.current(heightRef.current)
+      if (index === -1 || index === reportedSnapIndexRef.current) {
+        return
+      }
+      reportedSnapIndexRef.current = index
+      setCurrentSnapIndex(index)
+      onSnapChangeRef.current?.(index, heightRef.current, source)
+      savePersisted({
+        snap: heightRef.current,
+        index,
+        snapCount: snapPointsRef.current.length,
+        name: findSnapNameRef.current(heightRef.current),
+      })
+    },
+    [savePersisted]
+  )
+
+  // Read when a transition starts, so it can be an inline function without restarting anything
+  const springConfigRef = useRef(springConfig)
+  useEffect(() => {
+    springConfigRef.current = springConfig
+  }, [springConfig])
+
+  // New utility for using events safely
+  // The event is the transition the spring is animating, it picks the springConfig for it
+  const asyncSet = useCallback<
+    (opts: Parameters<typeof set>[0], event?: SpringEvent) => Promise<unknown>
+  >(
+    // @ts-expect-error
+    ({ onRest, config: { velocity = 1, ...config } = {}, ...opts }, event) =>
+      new Promise((resolve) =>
+        set({
+          ...opts,
+          config: {
+            velocity,
+            ...config,
+            // @see https://springs.pomb.us
+            mass: 1,
+            // "stiffness"
+            duration: 115,
+            tension,
+            // "damping"
+            friction: Math.max(
+              friction,
+              friction + (friction - friction * velocity)
+            ),
+            ...(event &&
+              (reduceMotionRef.current &&
+              (event.type === 'SNAP' || event.type === 'RESIZE')
+                ? reducedMotionConfig
+                : resolveSpringConfig(springConfigRef.current, event))),
+          },
+          onRest: (...args) => {
+            resolve(...args)
+            onRest?.(...args)
+          },
+        })
+      ),
+    [reduceMotionRef, set]
+  )
+  // Every transition has an AbortController, its signal is passed to the spring events of the transition
+  // and aborted when the overlay machine leaves its state, either because it's done or because it was interrupted
+  const abortControllersRef = useRef<
+    Partial<Record<SpringEvent['type'], AbortController>>
+  >({})
+  const getSignal = useCallback(
+    (type: SpringEvent['type'], restart = false) => {
+      const controllers = abortControllersRef.current
+      // Snapping to another snap point while snapping, or resizing again while resizing, starts over in the same state
+      if (restart || !controllers[type]) {
+        controllers[type]?.abort()
+        controllers[type] = new AbortController()
+      }
+      return controllers[type].signal
+    },
+    []
+  )
+  // Tells screen readers when the sheet opens, closes or snaps
+  const announce = useAnnouncer({ announcements })
+  const [current, send, actorRef] = useMachine(
+    overlayMachine.provide({
+      actions: {
+        onOpenCancel: useCallback(
+          () =>
+            onSpringCancelRef.current?.({
+              type: 'OPEN',
+              signal: getSignal('OPEN'),
+            }),
+          [getSignal]
+        ),
+        onSnapCancel: useCallback(
+          (state) =>
+            onSpringCancelRef.current?.({
+              type: 'SNAP',
+              signal: getSignal('SNAP'),
+              source: state.context.snapSource,
+            }),
+          [getSignal]
+        ),
+        onCloseCancel: useCallback(
+          () =>
+            onSpringCancelRef.current?.({
+              type: 'CLOSE',
+              signal: getSignal('CLOSE'),
+            }),
+          [getSignal]
+        ),
+        onResizeCancel: useCallback(
+          () =>
+            onSpringCancelRef.current?.({
+              type: 'RESIZE',
+              signal: getSignal('RESIZE'),
+              source: resizeSourceRef.current,
+            }),
+          [getSignal]
+        ),
+        onOpenEnd: useCallback(() => {
+          reportSnapChange('open')
+          onSpringEndRef.current?.({
+            type: 'OPEN',
+            signal: getSignal('OPEN'),
+            snapName: findSnapNameRef.current(heightRef.current),
+          })
+        }, [getSignal, reportSnapChange]),
+        onSnapEnd: useCallback(
+          (state, event) => {
+            reportSnapChange(state.context.snapSource)
+            onSpringEndRef.current?.({
+              type: 'SNAP',
+              signal: getSignal('SNAP'),
+              source: state.context.snapSource,
+              snapName: findSnapNameRef.current(heightRef.current),
+            })
+          },
+          [getSignal, reportSnapChange]
+        ),
+        onResizeEnd: useCallback(() => {
+          reportSnapChange(resizeSourceRef.current)
+          onSpringEndRef.current?.({
+            type: 'RESIZE',
+            signal: getSignal('RESIZE'),
+            source: resizeSourceRef.current,
+            snapName: findSnapNameRef.current(heightRef.current),
+          })
+        }, [getSignal, reportSnapChange]),
+        onDismiss: useCallback(
+          ({ context }) =>
+            onDismissRef.current?.(context.dismissReason as DismissReason),
+          []
+        ),
+      },
+
+      actors: {
+        onSnapStart: fromPromise(async ({ input }) => {
+          // The back button took the history entry with it when it started the dismissal, it's needed again now the sheet stays open
+          if (input.snapSource === 'dismiss-cancelled') {
+            closeOnBackRef.current.restore()
+          }
+          onSpringStartRef.current?.({
+            type: 'SNAP',
+            signal: getSignal('SNAP', true),
+            source: input.snapSource || 'custom',
+            snapName: findSnapNameRef.current(findSnapRef.current(input.y)),
+          })
+        }),
+        onOpenStart: fromPromise(async (props) => {
+          onSpringStartRef.current?.({
+            type: 'OPEN',
+            signal: getSignal('OPEN', true),
+            snapName: findSnapNameRef.current(defaultSnapRef.current),
+          })
+          console.log('props:', props)
+        }),
+        onCloseStart: fromPromise(async () =>
+          onSpringStartRef.current?.({
+            type: 'CLOSE',
+            signal: getSignal('CLOSE', true),
+          })
+        ),
+        onResizeStart: fromPromise(async () =>
+          onSpringStartRef.current?.({
+            type: 'RESIZE',
+            signal: getSignal('RESIZE', true),
+            source: resizeSourceRef.current,
+          })
+        ),
+        onSnapEnd: fromPromise(async () => {
+          reportSnapChange(current.context.snapSource)
+          onSpringEndRef.current?.({
+            type: 'SNAP',
+            signal: getSignal('SNAP'),
+            source: current.context.snapSource,
+            snapName: findSnapNameRef.current(heightRef.current),
+          })
+        }),
+        onOpenEnd: fromPromise(async () => {
+          reportSnapChange('open')
+          await onSpringEndRef.current?.({
+            type: 'OPEN',
+            signal: getSignal('OPEN'),
+            snapName: findSnapNameRef.current(heightRef.current),
+          })
+        }),
+        onCloseEnd: fromPromise(async () => {
+          // The focus trap was released by the deactivate actor, focus is only moved back now that the sheet is out of view
+          returnFocusHandleRef.current.restore()
+          // Opening again starts from the default snap point, with its behaviour
+          setCurrentSnapIndex(-1)
+          // Announced before onSpringEnd, as BottomSheet unmounts right after it
+          announce('closed', {
+            snapIndex: -1,
+            snapCount: snapPointsRef.current.length,
+          })
+          await onSpringEndRef.current?.({
+            type: 'CLOSE',
+            signal: getSignal('CLOSE'),
+          })
+        }),
+        onResizeEnd: fromPromise(async () => {
+          reportSnapChange(resizeSourceRef.current)
+          await onSpringEndRef.current?.({
+            type: 'RESIZE',
+            signal: getSignal('RESIZE'),
+            source: resizeSourceRef.current,
+            snapName: findSnapNameRef.current(heightRef.current),
+          })
+        }),
+        renderVisuallyHidden: fromPromise(async () => {
+          await asyncSet({
+            y: defaultSnapRef.current,
+            ready: 0,
+            maxHeight: maxHeightRef.current,
+            maxSnap: maxSnapRef.current,
+            // Using defaultSnapRef instead of minSnapRef to avoid animating `height` on open
+            minSnap: defaultSnapRef.current,
+            immediate: true,
+          })
+        }),
+        activate: fromPromise(async () => {
+          canDragRef.current = true
+          // Remember the trigger before the focus trap moves focus into the sheet
+          returnFocusHandleRef.current.capture()
+          // Pauses the sheet underneath, if any, before the plugins are activated
+          stackRef.current.activate()
+          closeOnBackRef.current.activate()
+          // Async plugins hold the opening transition until they're done
+          await activatePlugins()
+          // The sheet is at the height it's opening to, so the content can be scrolled to where it was left
+          const scrollTop = persistScroll && getPersisted()?.scrollTop
+          if (scrollTop) {
+            scrollRef.current.scrollTop = scrollTop
+          }
+        }),
+        deactivate: fromPromise(async () => {
+          if (persistScroll) {
+            savePersisted({ scrollTop: scrollRef.current.scrollTop })
+          }
+          deactivatePlugins()
+          // Opening again reports the snap point it opens to, even if it's the one it closed at
+          reportedSnapIndexRef.current = null
+          // Resumes the sheet underneath, now that the plugins are released
+          stackRef.current.deactivate()
+          closeOnBackRef.current.deactivate()
+          canDragRef.current = false
+        }),
+        openImmediately: fromPromise(async () => {
+          heightRef.current = defaultSnapRef.current
+          await asyncSet({
+            y: defaultSnapRef.current,
+            ready: 1,
+            maxHeight: maxHeightRef.current,
+            maxSnap: maxSnapRef.current,
+            // Using defaultSnapRef instead of minSnapRef to avoid animating `height` on open
+            minSnap: defaultSnapRef.current,
+            immediate: true,
+          })
+        }),
+        openSmoothly: fromPromise(async () => {
+          if (reduceMotionRef.current) {
+            // Fades in at the snap point it opens to, instead of sliding in
+            heightRef.current = defaultSnapRef.current
+            await asyncSet({
+              y: defaultSnapRef.current,
+              ready: 0,
+              maxHeight: maxHeightRef.current,
+              maxSnap: maxSnapRef.current,
+              minSnap: defaultSnapRef.current,
+              immediate: true,
+            })
+            await asyncSet({ ready: 1 })
+            return
+          }
+
+          await asyncSet({
+            y: 0,
+            ready: 1,
+            maxHeight: maxHeightRef.current,
+            maxSnap: maxSnapRef.current,
+            // Using defaultSnapRef instead of minSnapRef to avoid animating `height` on open
+            minSnap: defaultSnapRef.current,
+            immediate: true,
+          })
+
+          heightRef.current = defaultSnapRef.current
+
+          await asyncSet(
+            {
+              y: defaultSnapRef.current,
+              ready: 1,
+              maxHeight: maxHeightRef.current,
+              maxSnap: maxSnapRef.current,
+              // Using defaultSnapRef instead of minSnapRef to avoid animating `height` on open
+              minSnap: defaultSnapRef.current,
+            },
+            { type: 'OPEN', signal: getSignal('OPEN') }
+          )
+        }),
+        snapSmoothly: fromPromise(async ({ input: context }) => {
+          const snap = findSnapRef.current(context.y)
+          heightRef.current = snap
+          lastSnapRef.current = snap
+          await asyncSet(
+            {
+              y: snap,
+              ready: 1,
+              maxHeight: maxHeightRef.current,
+              maxSnap: maxSnapRef.current,
+              minSnap: minSnapRef.current,
+              config: { velocity: context.velocity },
+            },
+            {
+              type: 'SNAP',
+              source: context.snapSource || 'custom',
+              snapName: findSnapNameRef.current(snap),
+              signal: getSignal('SNAP'),
+            }
+          )
+        }),
+        resizeSmoothly: fromPromise(async () => {
+          const snap = findSnapRef.current(heightRef.current)
+          heightRef.current = snap
+          lastSnapRef.current = snap
+          await asyncSet(
+            {
+              y: snap,
+              ready: 1,
+              maxHeight: maxHeightRef.current,
+              maxSnap: maxSnapRef.current,
+              minSnap: minSnapRef.current,
+              immediate: resizeSourceRef.current !== 'element',
+            },
+            {
+              type: 'RESIZE',
+              source: resizeSourceRef.current,
+              signal: getSignal('RESIZE'),
+            }
+          )
+
+          if (resizeSourceRef.current === 'keyboard') {
+            // Ensure the input that brought up the keyboard isn't hidden behind it, or below the fold of the shrunk sheet
+            const focused = document.activeElement
+            if (
+              focused instanceof HTMLElement &&
+              containerRef.current?.contains(focused)
+            ) {
+              focused.scrollIntoView({ block: 'nearest' })
+            }
+          }
+        }),
+        beforeDismiss: fromPromise(async ({ input }) =>
+          beforeDismissRef.current
+            ? beforeDismissRef.current(input.reason as DismissReason)
+            : true
+        ),
+        closeSmoothly: fromPromise(async () => {
+          // Avoid animating the height property on close and stay within FLIP bounds by upping the minSnap
+          asyncSet({
+            minSnap: heightRef.current,
+            immediate: true,
+          })
+
+          heightRef.current = 0
+
+          if (reduceMotionRef.current) {
+            // Fades out where it is, instead of sliding out
+            await asyncSet({ ready: 0 })
+          }
+
+          await asyncSet(
+            {
+              y: 0,
+              maxHeight: maxHeightRef.current,
+              maxSnap: maxSnapRef.current,
+              immediate: reduceMotionRef.current,
+            },
+            { type: 'CLOSE', signal: getSignal('CLOSE') }
+          )
+
+          await asyncSet({ ready: 0, immediate: true })
+        }),
+      },
+    })
+  )
+
+  useEffect(() => {
+    const controllers = abortControllersRef.current
+    const subscription = actorRef.subscribe((snapshot) => {
+      Object.keys(controllers).forEach((type) => {
+        if (!snapshot.matches(transitionStates[type])) {
+          controllers[type].abort()
+          delete controllers[type]
+        }
+      })
+    })
+    return () => {
+      subscription.unsubscribe()
+      Object.values(controllers).forEach((controller) => controller.abort())
+    }
+  }, [actorRef])
+
+  useEffect(() => {
+    if (!ready) return
+
+    if (_open) {
+      send({ type: 'OPEN' })
+    } else {
+      send({ type: 'CLOSE' })
+    }
+  }, [_open, send, ready])
+
+  // Tells screen readers what happened, following the overlay machine as it settles in the open state
+  const previousStateRef = useRef(current)
+  const announcedSnapIndexRef = useRef(-1)
+  useEffect(() => {
+    const previous = previousStateRef.current
+    previousStateRef.current = current
+    if (previous === current) return
+
+    // Closing is announced by the onCloseEnd actor, the sheet might be unmounted before this runs again
+    if (current.matches('closed') && previous.matches('closing')) {
+      announcedSnapIndexRef.current = -1
+      return
+    }
+
+    const opened = previous.matches('opening')
+    if (
+      !current.matches('open') ||
+      (!opened && !previous.matches('snapping'))
+    ) {
+      return
+    }
+
+    const snapIndex = findSnapIndexRef.current(heightRef.current)
+    if (!opened && snapIndex === announcedSnapIndexRef.current) return
+    announcedSnapIndexRef.current = snapIndex
+
+    const snapCount = snapPointsRef.current.length
+    const props = {
+      snapIndex,
+      snapCount,
+      snapName: findSnapNameRef.current(heightRef.current),
+      snapLabel: findSnapBehaviorRef.current(heightRef.current).label,
+    }
+    if (opened) {
+      announce('opened', props)
+    } else if (snapCount > 1 && snapIndex === snapCount - 1) {
+      announce('expanded', props)
+    } else if (snapCount > 1 && snapIndex === 0) {
+      announce('collapsed', props)
+    } else {
+      announce('snapped', props)
+    }
+  }, [announce, current])
+
+  const resting = current.matches('open')
+  useEffect(() => {
+    // Move to the controlled snap index, unless the sheet is already there, like when the change came from onSnapChange.
+    // It's checked every time the sheet comes to rest, the opening transition ignores snapping and the sheet might have been
+    // dragged to a snap point that onSnapChange didn't accept
+    if (
+      !ready ||
+      !resting ||
+      snapIndex === undefined ||
+      findSnapIndexRef.current(heightRef.current) === snapIndex
+    ) {
+      return
+    }
+
+    send({
+      type: 'SNAP',
+      payload: {
+        y: findSnapRef.current({ index: snapIndex }),
+        velocity: 1,
+        source: 'snapindexprop',
+      },
+    })
+  }, [snapIndex, send, ready, resting])
+
+  useLayoutEffect(() => {
+    // Adjust the height whenever the snap points are changed due to resize events
+    if (maxHeight || maxSnap || minSnap) {
+      send({ type: 'RESIZE' })
+    }
+  }, [maxHeight, maxSnap, minSnap, send])
+
+  useEffect(
+    () => () => {
+      // Ensure effects are cleaned up on unmount, in case they're not cleaned up otherwise
+      deactivatePlugins()
+      stackRef.current.deactivate()
+    },
+    [deactivatePlugins, stackRef]
+  )
+
+  // Every way of closing the sheet goes through here, so shouldDismiss gets a say. Returns false if it was vetoed
+  const dismiss = useCallback(
+    (reason: DismissReason) => {
+      if (!onDismiss || shouldDismiss?.(reason) === false) {
+        return false
+      }
+      if (beforeDismiss) {
+        const event = {
+          type: 'DISMISS',
+          payload: { reason, y: heightRef.current },
+        } as const
+        const snapshot = actorRef.getSnapshot()
+        // Already waiting for beforeDismiss to settle
+        if (snapshot.matches('dismissing')) {
+          return true
+        }
+        // The overlay machine waits for beforeDismiss, and springs back to the current snap point if it says no.
+        // Before the sheet is visible, or while it's closing, there's nothing to spring back to so it's dismissed right away
+        if (snapshot.can(event)) {
+          send(event)
+          return true
+        }
+      }
+      onDismiss(reason)
+      return true
+    },
+    [actorRef, beforeDismiss, onDismiss, send, shouldDismiss]
+  )
+
+  const closeOnBackRef = useCloseOnBack({
+    // Without onDismiss the back button would be swallowed without closing anything
+    enabled: closeOnBack && !!onDismiss,
+    onBack: () => dismiss('back'),
+  })
+
+  const handles = useMemo<RefHandles>(
+    () => ({
+      snapTo: (numberOrCallback, { velocity = 1, source = 'custom' } = {}) => {
+        send({
+          type: 'SNAP',
+          payload: {
+            y: findSnapRef.current(numberOrCallback),
+            velocity,
+            source,
+          },
+        })
+      },
+      dismiss: () => {
+        dismiss('programmatic')
+      },
+      get height() {
+        return heightRef.current
+      },
+      get scrollElement() {
+        return scrollRef.current
+      },
+    }),
+    [dismiss, send, scrollRef]
+  )
+
+  // Momentum scrolling shouldn't outlive the sheet
+  useEffect(() => () => stopMomentumRef.current?.(), [])
+
+  const contentDraggable =
+    snapBehavior.expandOnContentDrag && !isHorizontal(placement)
+  // The scroll container a gesture on the content started in, one that's marked inside the sheet or else the sheet's own
+  const findScroller = useCallback(
+    (target: EventTarget | null | undefined) => {
+      const scrollable = (target as Element)?.closest?.(
+        '[data-rsbs-scrollable]'
+      )
+      return scrollRef.current.contains(scrollable)
+        ? scrollable
+        : scrollRef.current
+    },
+    [scrollRef]
+  )
+  // Pointer events can't stop the browser from scrolling, touchmove has to be cancelled for the sheet to take over a drag on the content.
+  // React adds touch listeners as passive, so they're added here
+  useEffect(() => {
+    const container = containerRef.current
+    if (!contentDraggable || !container) {
+      return
+    }
+    const scrollSign = placement === 'bottom' ? 1 : -1
+    let startX = 0
+    let startY = 0
+
+    const handleTouchStart = (event: TouchEvent) => {
+      startX = event.touches[0].clientX
+      startY = event.touches[0].clientY
+      if (!scrollRef.current.contains(event.target as Node)) {
+        return
+      }
+      // Safari rubber bands past the start of the content, put it back before the sheet can be dragged
+      const scroller = findScroller(event.target) as HTMLElement
+      if (scroller.scrollTop < 0) {
+        requestAnimationFrame(() => {
+          scroller.style.overflow = 'hidden'
+          scroller.scrollTop = 0
+          scroller.style.removeProperty('overflow')
+        })
+        event.preventDefault()
+      }
+    }
+    const handleTouchMove = (event: TouchEvent) => {
+      const gesture = contentDragRef.current
+      if (!gesture || !event.cancelable) {
+        return
+      }
+      const touch = event.touches[0]
+      if (
+        claimContentDrag(
+          gesture,
+          (startY - touch.clientY) * scrollSign,
+          touch.clientX - startX,
+          maxSnapRef.current,
+          scrollSign
+        ) === 'sheet'
+      ) {
+        event.preventDefault()
+      }
+    }
+
+    container.addEventListener('touchstart', handleTouchStart, {
+      passive: false,
+    })
+    container.addEventListener('touchmove', handleTouchMove, { passive: false })
+    return () => {
+      container.removeEventListener('touchstart', handleTouchStart)
+      container.removeEventListener('touchmove', handleTouchMove)
+    }
+  }, [contentDraggable, containerRef, findScroller, placement, scrollRef])
+
+  const handleDrag = ({
+    args: [{ closeOnTap = false, isContentDragging = false } = {}] = [],
+    cancel,
+    direction: _direction,
+    down,
+    event,
+    first,
+    last,
+    memo = spring.y.getValue() as number,
+    movement,
+    tap,
+    velocity,
+    vxvy,
+  }) => {
+    // The movement along the axis the sheet grows on, positive when it grows
+    const axis = isHorizontal(placement) ? 0 : 1
+    const sign = placement === 'bottom' || placement === 'right' ? -1 : 1
+    let my = movement[axis] * sign
+    // Positive when moving towards the edge the sheet is anchored to
+    const direction = _direction[axis] * -sign
+
+    // Cancel the drag operation if the canDrag state changed
+    if (!canDragRef.current) {
+      console.log('handleDrag cancelled dragging because canDragRef is false')
+      cancel()
+      return memo
+    }
+
+    // Keep the sheet where it is while beforeDismiss is pending
+    if (current.matches({ dismissing: 'confirming' })) {
+      cancel()
+      return memo
+    }
+
+    if (onDismiss && closeOnTap && tap) {
+      cancel()
+      // Runs onDismiss in a timeout to avoid tap events on the backdrop from triggering click events on elements underneath
+      setTimeout(() => dismiss('backdrop'), 0)
+      return memo
+    }
+
+    // Filter out taps
+    if (tap) {
+      return memo
+    }
+
+    // Dragging the content hands the movement over between scrolling and moving the sheet, like the sheets in map apps do.
+    // Scrolling is left to the browser, the sheet only takes over a gesture that starts at an edge: expanding while it's below its largest
+    // snap point, or collapsing while the content is scrolled to the start. From there the content scrolls until it's back at the start
+    // before the sheet collapses, and the sheet expands fully before the content scrolls, within the same gesture.
+    const isContentDrag = isContentDragging && contentDraggable
+    // Which way scrollTop moves when the sheet grows, top sheets grow when dragging down
+    const scrollSign = placement === 'bottom' ? 1 : -1
+    if (isContentDrag) {
+      if (first) {
+        stopMomentumRef.current?.()
+        contentDragRef.current = {
+          // The handoff happens with the scroll container the gesture started in
+          scroller: findScroller(event?.target),
+          y: memo,
+          lastMy: 0,
+          moved: false,
+          // A mouse doesn't scroll the content when dragging it, the sheet handles all of it
+          owner:
+            (event as PointerEvent)?.pointerType === 'mouse' ? 'sheet' : null,
+        }
+      }
+      const gesture = contentDragRef.current
+      if (last) {
+        contentDragRef.current = null
+      }
+      if (
+        claimContentDrag(
+          gesture,
+          my,
+          movement[1 - axis],
+          maxSnapRef.current,
+          scrollSign
+        ) !== 'sheet'
+      ) {
+        // The browser is scrolling the content, it cancels the gesture once it does
+        return memo
+      }
+      const delta = my - gesture.lastMy
+      gesture.lastMy = my
+      const { scroller } = gesture
+      if (delta > 0) {
+        const grow = Math.min(
+          delta,
+          Math.max(0, maxSnapRef.current - gesture.y)
+        )
+        gesture.y += grow
+        scroller.scrollTop += (delta - grow) * scrollSign
+      } else if (delta < 0) {
+        const scrolled =
+          scrollSign > 0
+            ? scroller.scrollTop
+            : scroller.scrollHeight - scroller.clientHeight - scroller.scrollTop
+        const scroll = Math.min(-delta, Math.max(0, scrolled))
+        scroller.scrollTop -= scroll * scrollSign
+        gesture.y += delta + scroll
+      }
+      my = gesture.y - memo
+
+      if (last && gesture.y >= maxSnapRef.current) {
+        // Keep scrolling after letting go, as native scrolling would have
+        stopMomentumRef.current = scrollWithMomentum(
+          scroller,
+          vxvy[axis] * sign * scrollSign
+        )
+      }
+
+      if (!gesture.moved) {
+        // Only scrolled so far, the sheet hasn't started dragging yet
+        if (my === 0) return memo
+        gesture.moved = true
+        send({ type: 'DRAG' })
+      }
+    }
+
+    const rawY = memo + my
+    const predictedDistance = my * velocity
+    const predictedY = Math.max(
+      minSnapRef.current,
+      Math.min(maxSnapRef.current, rawY + predictedDistance * 2)
+    )
+
+    if (
+      !down &&
+      onDismiss &&
+      direction > 0 &&
+      (rawY + predictedDistance < minSnapRef.current * dismissThreshold ||
+        (rawY < minSnapRef.current &&
+          Math.abs(vxvy[axis]) > dismissVelocityThreshold)) &&
+      dismiss('drag')
+    ) {
+      cancel()
+      return memo
+    }
+
+    let newY = down
+      ? // @TODO figure out a better way to deal with rubberband overshooting if min and max have the same value
+        !onDismiss && minSnapRef.current === maxSnapRef.current
+        ? rawY < minSnapRef.current
+          ? rubberbandIfOutOfBounds(
+              rawY,
+              minSnapRef.current,
+              maxSnapRef.current * 2,
+              0.55
+            )
+          : rubberbandIfOutOfBounds(
+              rawY,
+              minSnapRef.current / 2,
+              maxSnapRef.current,
+              0.55
+            )
+        : rubberbandIfOutOfBounds(
+            rawY,
+            onDismiss ? 0 : minSnapRef.current,
+            maxSnapRef.current,
+            0.55
+          )
+      : resolveSnapTarget(snapStrategy, {
+          from: memo,
+          release: rawY,
+          projected: predictedY,
+          velocity: vxvy[axis] * sign,
+          snapPoints: snapPointsRef.current,
+        })
+
+    if (first && !isContentDrag) {
+      send({ type: 'DRAG' })
+    }
+
+    if (last) {
+      send({
+        type: 'SNAP',
+        payload: {
+          y: newY,
+          velocity: velocity > 0.05 ? velocity : 1,
+          source: 'dragging',
+        },
+      })
+
+      return memo
+    }
+
+    // @TODO too many rerenders
+    //send('DRAG', { y: newY, velocity })
+    //*
+    set({
+      y: newY,
+      ready: 1,
+      maxHeight: maxHeightRef.current,
+      maxSnap: maxSnapRef.current,
+      minSnap: minSnapRef.current,
+      immediate: true,
+      config: { velocity },
+    })
+    // */
+
+    return memo
+  }
+
+  const bind = useDrag(handleDrag, {
+    filterTaps: true,
+  })
+
+  if (Number.isNaN(maxSnapRef.current)) {
+    throw new TypeError('maxSnapRef is NaN!!')
+  }
+  if (Number.isNaN(minSnapRef.current)) {
+    throw new TypeError('minSnapRef is NaN!!')
+  }
+
+  // The backdrop either fades in over the backdropRange, or has an opacity for each snap point
+  // The range can use named snap points, so it's only resolved once the sheet is ready
+  const fadeOverRange = ready && !!backdropRange
+  const backdropStops = fadeOverRange
+    ? backdropRange.map((target) => findSnap(target)).sort((a, b) => a - b)
+    : snapPoints
+  const backdropOpacities = fadeOverRange
+    ? [0, 1]
+    : snapPoints.map((snap) => {
+        const { backdrop, blocking: snapBlocking } = findSnapBehavior(snap)
+        return typeof backdrop === 'number'
+          ? clamp(backdrop, 0, 1)
+          : backdrop ?? snapBlocking ?? blocking
+          ? 1
+          : 0
+      })
+  const interpolations = useSpringInterpolations({
+    spring,
+    placement,
+    backdropStops,
+    backdropOpacities,
+    detached: detached && placement === 'bottom',
+    reduceMotion,
+  })
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        // Always stop propagation, to avoid weirdness for bottom sheets inside other bottom sheets
+        event.stopPropagation()
+        // Only the sheet on top of the stack responds to escape
+        if (stackDepth > 0) return
+        dismiss('escape')
+      }
+    },
+    [dismiss, stackDepth]
+  )
+
+  const handleHandleKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      const lastIndex = snapPointsRef.current.length - 1
+      const index = findSnapIndexRef.current(heightRef.current)
+      // PageUp and PageDown take bigger steps, when there's enough snap points for it to make a difference
+      const pageStep = Math.max(1, Math.round(snapPointsRef.current.length / 3))
+      let nextIndex: number
+      switch (event.key) {
+        case 'ArrowUp':
+        case 'ArrowRight':
+          nextIndex = index + 1
+          break
+        case 'ArrowDown':
+        case 'ArrowLeft':
+          nextIndex = index - 1
+          break
+        case 'PageUp':
+          nextIndex = index + pageStep
+          break
+        case 'PageDown':
+          nextIndex = index - pageStep
+          break
+        case 'Home':
+          nextIndex = 0
+          break
+        case 'End':
+          nextIndex = lastIndex
+          break
+        default:
+          return
+      }
+      // Avoid scrolling the content while stepping through the snap points
+      event.preventDefault()
+
+      nextIndex = Math.max(0, Math.min(lastIndex, nextIndex))
+      if (nextIndex === index) return
+
+      send({
+        type: 'SNAP',
+        payload: {
+          y: snapPointsRef.current[nextIndex],
+          velocity: 1,
+          source: 'keyboard',
+        },
+      })
+    },
+    [send]
+  )
+
+  const currentSnap = snapPoints[currentSnapIndex]
+  const handleProps = {
+    role: 'slider',
+    'aria-label': handleLabel,
+    'aria-orientation': isHorizontal(placement)
+      ? ('horizontal' as const)
+      : ('vertical' as const),
+    'aria-valuemin': 0,
+    'aria-valuemax': snapPoints.length - 1,
+    'aria-valuenow': currentSnap === undefined ? undefined : currentSnapIndex,
+    'aria-valuetext':
+      currentSnap === undefined
+        ? undefined
+        : snapLabel ??
+          findSnapName(currentSnap) ??
+          `${Math.round((currentSnap / maxHeight) * 100)}%`,
+    // Kept out of the tab order while opening, so the focus trap moves focus to the first interactive element in the content instead
+    tabIndex: current.matches('closed') || current.matches('opening') ? -1 : 0,
+    onKeyDown: handleHandleKeyDown,
+  }
+
+  const [sheetId] = useState(() => ++sheetIdCounter)
+  const titleId = `rsbs-title-${sheetId}`
+  const descriptionId = `rsbs-description-${sheetId}`
+  // Blocking sheets are modal dialogs, while non-blocking ones sit next to the page like an aside
+  const dialogProps = {
+    role: isBlocking ? 'dialog' : 'complementary',
+    'aria-modal': isBlocking ? true : undefined,
+    'aria-label': ariaLabel,
+    'aria-labelledby': ariaLabelledBy ?? (hasTitle ? titleId : undefined),
+    'aria-describedby':
+      ariaDescribedBy ?? (hasDescription ? descriptionId : undefined),
+    tabIndex: -1,
+    onKeyDown: handleKeyDown,
+  }
+
+  return {
+    /** The snapshot of the overlay machine */
+    state: current,
+    /** The state that is exposed to CSS on `[data-rsbs-state]` */
+    publicState: publicStates.find((state) => current?.value === state),
+    send,
+    spring,
+    /** The CSS custom properties that drive the styling, such as `--rsbs-overlay-h` */
+    interpolations,
+    /** Spread `bind()` on elements that can be dragged, and `bind({ closeOnTap: true })` on the backdrop */
+    bind,
+    /** Handles escape, attach it to the element that has the dialog role */
+    onKeyDown: handleKeyDown,
+    /** Spread on the overlay, the role, labelling and keyboard handling of the dialog */
+    dialogProps,
+    /** Put these ids on your title and description, when using hasTitle and hasDescription */
+    titleId,
+    descriptionId,
+    /** Spread on the drag handle, makes it a slider that steps through the snap points with the keyboard */
+    handleProps,
+    /** The same handles the BottomSheet component exposes on its `ref` */
+    handles,
+    containerRef,
+    overlayRef,
+    headerRef,
+    scrollRef,
+    contentRef,
+    footerRef,
+    /** How the sheet behaves at the snap point it's resting at, the props with the overrides from the snap point applied */
+    snapBehavior,
+    /** Whether there's a snap point where the backdrop is shown, when it isn't there's no need to render it */
+    hasBackdrop: backdropOpacities.some((opacity) => opacity > 0),
+    /** How many sheets are stacked on top of this one, in a BottomSheetStackProvider */
+    stackDepth,
+    /** How much of the viewport is covered by the soft keyboard, when keyboardAware */
+    keyboardInset,
+    /** Whether the sheet floats above the bottom edge, set `--rsbs-detached-offset` to the detachedOffset in pixels */
+    isDetached: detached && placement === 'bottom',
+    /** Whether transitions fade instead of slide, following reducedMotion */
+    reduceMotion,
+  }
+}
+
+let sheetIdCounter = 0
+
+// Reduced motion moves between snap points with a short ease out instead of a spring, it never overshoots
+const reducedMotionConfig = {
+  duration: 150,
+  easing: (t: number) => 1 - Math.pow(1 - t, 3),
+}
+
+// The overlay machine state each type of transition happens in
+const transitionStates = {
+  OPEN: 'opening',
+  SNAP: 'snapping',
+  RESIZE: 'resizing',
+  CLOSE: 'closing',
+} as const
+
+const publicStates = [
+  'closed',
+  'opening',
+  'open',
+  'closing',
+  'dragging',
+  'snapping',
+  'resizing',
+]
+
+// Decides who handles a drag on the content from its first movement, grow is positive when it's towards expanding the sheet.
+// The sheet takes over when it can still expand, or when the content is scrolled to its start, otherwise the browser scrolls it
+function claimContentDrag(
+  gesture: { scroller: Element; y: number; owner: 'sheet' | 'scroll' | null },
+  grow: number,
+  cross: number,
+  maxSnap: number,
+  scrollSign: number
+) {
+  if (gesture.owner || (grow === 0 && cross === 0)) {
+    return gesture.owner
+  }
+  const { scroller } = gesture
+  const scrolled =
+    scrollSign > 0
+      ? scroller.scrollTop
+      : scroller.scrollHeight - scroller.clientHeight - scroller.scrollTop
+  // Sideways movement is left alone, for carousels and maps in the content
+  gesture.owner =
+    Math.abs(cross) <= Math.abs(grow) &&
+    ((grow > 0 && gesture.y < maxSnap) || (grow < 0 && scrolled <= 0))
+      ? 'sheet'
+      : 'scroll'
+  return gesture.owner
+}
+
+// Userland plugins can't fail the transition they run in, the error is logged and the sheet carries on without them
+function runPlugin(run: () => void | Promise<void>) {
+  try {
+    return Promise.resolve(run()).catch((error) => console.error(error))
+  } catch (error) {
+    console.error(error)
+  }
+}
+
+// Default prop values that are callbacks, and it's nice to save some memory and reuse their instances since they're pure
+function _defaultSnap({ snapPoints, lastSnap }: defaultSnapProps) {
+  return lastSnap ?? Math.min(...snapPoints)
+}
+function _snapPoints({ minHeight }: SnapPointProps) {
+  return minHeight
+}
@@ -1,5 +1,18 @@
 /* eslint-disable no-self-compare */
 
+import { config as reactSpringConfig } from 'react-spring'
+import type {
+  Placement,
+  SnapPoint,
+  SnapPointBehavior,
+  SnapPointProps,
+  SnapStrategy,
+  SpringConfig,
+  SpringConfigOption,
+  SpringEvent,
+  SpringPreset,
+} from './types'
+
 // stolen from lodash
 export function clamp(number: number, lower: number, upper: number) {
   number = +number
@@ -32,16 +45,80 @@ export function roundAndCheckForNaN(unrounded) {
   return rounded
 }
 
+// Resolves snap point descriptors like '50%', 'content' or { px: 200 } to px
+export function resolveSnapPoint(
+  snapPoint: SnapPoint,
+  dimensions: SnapPointProps
+): number {
+  if (typeof snapPoint === 'number') {
+    return snapPoint
+  }
+  if (typeof snapPoint === 'object' && snapPoint !== null) {
+    if ('value' in snapPoint) {
+      return resolveSnapPoint(snapPoint.value, dimensions)
+    }
+    if ('px' in snapPoint) {
+      return snapPoint.px
+    }
+  }
+  if (snapPoint === 'content') {
+    return dimensions.minHeight
+  }
+  if (snapPoint === 'header') {
+    return dimensions.headerHeight
+  }
+  const match =
+    typeof snapPoint === 'string' && /^(-?\d*\.?\d+)(%|vh)$/.exec(snapPoint)
+  if (match) {
+    const [, value, unit] = match
+    const relativeTo =
+      unit === 'vh' && typeof window !== 'undefined'
+        ? window.innerHeight
+        : dimensions.maxHeight
+    return (Number(value) / 100) * relativeTo
+  }
+
+  throw new TypeError(
+    `Found an invalid snap point: ${JSON.stringify(
+      snapPoint
+    )}! Check your snapPoints / defaultSnap / snapTo`
+  )
+}
+
 // Validate, sanitize, round and dedupe snap points, as well as extracting the minSnap and maxSnap points
-export function processSnapPoints(unsafeSnaps: number | number[], maxHeight) {
-  const safeSnaps = [].concat(unsafeSnaps).map(roundAndCheckForNaN)
+export function processSnapPoints(
+  unsafeSnaps: SnapPoint | SnapPoint[],
+  dimensions: SnapPointProps
+) {
+  const { maxHeight } = dimensions
+  // Keeps track of what named snap points resolved to, for snapTo('name') and the snapName on events
+  const namedSnapPoints = new Map<string, number>()
+  // The behaviour that snap point descriptors have set, by what they resolved to
+  const snapBehaviors = new Map<number, SnapPointBehavior>()
 
-  const snapPointsDedupedSet = safeSnaps.reduce((acc, snapPoint) => {
-    acc.add(clamp(snapPoint, 0, maxHeight))
-    return acc
-  }, new Set<number>())
+  const snapPointsDedupedSet = ([] as SnapPoint[])
+    .concat(unsafeSnaps)
+    .reduce((acc, unsafeSnap) => {
+      const snapPoint = clamp(
+        roundAndCheckForNaN(resolveSnapPoint(unsafeSnap, dimensions)),
+        0,
+        maxHeight
+      )
+      if (typeof unsafeSnap === 'object' && 'value' in unsafeSnap) {
+        const { name, value, ...behavior } = unsafeSnap
+        if (name) {
+          namedSnapPoints.set(name, snapPoint)
+        }
+        snapBehaviors.set(snapPoint, {
+          ...snapBehaviors.get(snapPoint),
+          ...behavior,
+        })
+      }
+      acc.add(snapPoint)
+      return acc
+    }, new Set<number>())
 
-  const snapPoints = Array.from(snapPointsDedupedSet)
+  const snapPoints = Array.from(snapPointsDedupedSet).sort((a, b) => a - b)
 
   const minSnap = Math.min(...snapPoints)
   if (Number.isNaN(minSnap)) {
@@ -54,12 +131,188 @@ export function processSnapPoints(unsafeSnaps: number | number[], maxHeight) {
 
   return {
     snapPoints,
+    namedSnapPoints,
+    snapBehaviors,
     minSnap,
     maxSnap,
   }
 }
 
+export function findClosestSnap(search: number, snapPoints: number[]) {
+  return snapPoints.reduce((prev, curr) =>
+    Math.abs(curr - search) < Math.abs(prev - search) ? curr : prev
+  )
+}
+
+// Picks the height to snap to when a drag ends, according to the snapStrategy prop
+export function resolveSnapTarget(
+  strategy: SnapStrategy,
+  {
+    from,
+    release,
+    projected,
+    velocity,
+    snapPoints,
+  }: {
+    // The height the drag started at
+    from: number
+    // The height the drag ended at
+    release: number
+    // The height the sheet is projected to end up at
+    projected: number
+    // px/ms, positive when the sheet is growing
+    velocity: number
+    snapPoints: number[]
+  }
+) {
+  if (typeof strategy === 'function') {
+    return strategy(from, projected, velocity, snapPoints)
+  }
+
+  if (strategy === 'next') {
+    // Not a flick, so there's no direction to go in
+    if (Math.abs(velocity) < 0.05) {
+      return findClosestSnap(release, snapPoints)
+    }
+    const ahead =
+      velocity > 0
+        ? snapPoints.filter((snap) => snap > release)
+        : snapPoints.filter((snap) => snap < release)
+    if (ahead.length === 0) {
+      return velocity > 0 ? Math.max(...snapPoints) : Math.min(...snapPoints)
+    }
+    return velocity > 0 ? Math.min(...ahead) : Math.max(...ahead)
+  }
+
+  if (
+    strategy === 'momentum' ||
+    (typeof strategy === 'object' && strategy.type === 'momentum')
+  ) {
+    const decelerationRate =
+      (typeof strategy === 'object' && strategy.decelerationRate) || 0.998
+    // @see https://developer.apple.com/videos/play/wwdc2018/803/
+    return findClosestSnap(
+      release + (velocity * decelerationRate) / (1 - decelerationRate),
+      snapPoints
+    )
+  }
+
+  return projected
+}
+
+// Sheets placed on the left or right edge grow along the x axis, their snap points are widths
+export function isHorizontal(placement: Placement) {
+  return placement === 'left' || placement === 'right'
+}
+
 export const debugging =
   process.env.NODE_ENV === 'development' && typeof window !== 'undefined'
     ? window.location.search === '?debug'
     : false
+
+// Keeps scrolling with the velocity, in px/ms, that a drag was released with and slows down like native momentum scrolling.
+// Returns a function that stops it
+export function scrollWithMomentum(element: Element, velocity: number) {
+  let frame: number
+  let previous = performance.now()
+  const step = (now: number) => {
+    const elapsed = now - previous
+    previous = now
+    const scrollTop = element.scrollTop
+    element.scrollTop += velocity * elapsed
+    velocity *= Math.pow(0.998, elapsed)
+    // Stop when it's slow enough, or the scroll container can't scroll any further
+    if (Math.abs(velocity) > 0.01 && element.scrollTop !== scrollTop) {
+      frame = requestAnimationFrame(step)
+    }
+  }
+  frame = requestAnimationFrame(step)
+  return () => cancelAnimationFrame(frame)
+}
+
+// Named spring configs for springConfig, 'default' is the built-in transition
+export const springPresets: Record<
+  Exclude<SpringPreset, 'default'>,
+  SpringConfig
+> = {
+  // Slow and soft, without overshooting
+  gentle: { mass: 1, tension: 120, friction: 22 },
+  // Quick and firm, settles almost immediately
+  snappy: { mass: 1, tension: 400, friction: 36 },
+  // Critically damped with a response of 0.5s, the defaults for UIKit spring animations
+  ios: { mass: 1, tension: 158, friction: 25 },
+}
+
+// Picks the config for a transition, with the presets resolved.
+// undefined means the built-in transition is used. A config with spring parameters replaces it entirely, the ones it leaves out
+// fall back to the react-spring defaults instead of the built-in ones. Other options, like a duration or velocity, are applied on top of it.
+export function resolveSpringConfig(
+  springConfig: SpringConfigOption | undefined,
+  event: SpringEvent
+): SpringConfig | undefined {
+  const config =
+    typeof springConfig === 'function'
+      ? springConfig(event)
+      : isSpringConfigMap(springConfig)
+      ? springConfig[event.type]
+      : springConfig
+  if (config === undefined || config === 'default') {
+    return undefined
+  }
+  const resolved = typeof config === 'string' ? springPresets[config] : config
+  if (
+    resolved.mass === undefined &&
+    resolved.tension === undefined &&
+    resolved.friction === undefined
+  ) {
+    return resolved
+  }
+  // The built-in transition is duration based, a spring has to clear it
+  return {
+    mass: 1,
+    ...reactSpringConfig.default,
+    duration: undefined,
+    ...resolved,
+  }
+}
+
+function isSpringConfigMap(
+  springConfig: SpringConfigOption | undefined
+): springConfig is Partial<
+  Record<SpringEvent['type'], SpringConfig | SpringPreset>
+> {
+  return (
+    typeof springConfig === 'object' &&
+    ['OPEN', 'CLOSE', 'SNAP', 'RESIZE'].some((type) => type in springConfig)
+  )
+}
+
+// Easing with the same curve as cubic-bezier() in CSS, for duration based transitions that follow a motion spec
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number) {
+  // A coordinate on the curve at t, the end points are fixed at 0 and 1
+  const bezier = (t: number, p1: number, p2: number) =>
+    3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t
+
+  return (x: number) => {
+    if (x <= 0 || x >= 1) {
+      return clamp(x, 0, 1)
+    }
+    // Bisect to the t where the curve is at x, it always moves forward along x as long as x1 and x2 are between 0 and 1
+    let lower = 0
+    let upper = 1
+    let t = x
+    for (let i = 0; i < 20; i++) {
+      const current = bezier(t, x1, x2)
+      if (Math.abs(current - x) < 1e-5) {
+        break
+      }
+      if (current < x) {
+        lower = t
+      } else {
+        upper = t
+      }
+      t = (lower + upper) / 2
+    }
+    return bezier(t, y1, y2)
+  }
+}